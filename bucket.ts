@@ -1,14 +1,14 @@
 import { parse as parseXml } from "xml/mod.ts";
 
-import { ClientConfig, CommonOptions, RequestConfig } from "./common.ts";
+import { Acl, ClientConfig, ClientError, CommonOptions, Owner, RequestConfig } from "./common.ts";
 import { Operation } from "./operation.ts";
-import { camelToKebab, isBlank } from "./helper.ts";
+import { camelToKebab, isBlank, escapeXmlSpecialChars, buildTaggingXml, parseTaggingXml, optionalString, toArray } from "./helper.ts";
 
 /**
  * List buckets query parameters.
  * See [Official Documents](https://help.aliyun.com/zh/oss/developer-reference/listbuckets) for more details.
  */
-export interface ListBucketsOptions {
+export interface ListBucketsOptions extends CommonOptions {
     /**
      * 限定返回的 Bucket 名称必须以 `prefix` 作为前缀。如果不设定，则不过滤前缀信息。
      */
@@ -64,7 +64,7 @@ export interface ListBucketsResult {
  */
 export interface BucketInfo extends Bucket {
     accessControlList: {
-        grant: string;
+        grant: Acl;
     };
 
     serverSideEncryptionRule: {
@@ -151,315 +151,2606 @@ export interface ListObjectsResult {
     contents?: ListObjectsContent[]
 }
 
+/**
+ * List multipart uploads query parameters.
+ * See [Official Document](https://help.aliyun.com/zh/oss/developer-reference/listmultipartuploads) for more details.
+ */
+export interface ListMultipartUploadsQuery extends CommonOptions {
+    /**
+     * 对 Object 名字进行分组的字符。所有名字包含指定的前缀且第一次出现 `delimiter` 字符之间的 Object 作为一组元素（即 CommonPrefixes）。
+     */
+    delimiter?: string;
+
+    /**
+     * 限定此次返回分片上传事件的最大个数。取值范围：`1~1000`。默认值：`1000`
+     */
+    maxUploads?: number;
+
+    /**
+     * 与 `uploadIdMarker` 一起使用，用于指定返回结果的起始位置。
+     *
+     * - 如果没有设置 `uploadIdMarker`，则返回 Object 名字字典序大于 `keyMarker` 的分片上传事件。
+     * - 如果设置了 `uploadIdMarker`，则同时返回 Object 名字等于 `keyMarker` 且 `uploadId` 大于 `uploadIdMarker` 的分片上传事件。
+     */
+    keyMarker?: string;
+
+    /**
+     * 限定返回的分片上传事件的 Object 名字必须以 `prefix` 作为前缀。
+     */
+    prefix?: string;
+
+    /**
+     * 与 `keyMarker` 一起使用，用于指定返回结果的起始位置。如果没有设置 `keyMarker`，则此参数无效。
+     */
+    uploadIdMarker?: string;
+}
+
+/**
+ * 尚未完成或者取消的分片上传事件
+ */
+export interface MultipartUpload {
+    objectKey: string;
+    uploadId: string;
+
+    /**
+     * 分片上传事件初始化的时间
+     */
+    initiated: Date;
+}
+
+export interface ListMultipartUploadsResult {
+    bucketName: string;
+    keyMarker?: string;
+    uploadIdMarker?: string;
+    nextKeyMarker?: string;
+    nextUploadIdMarker?: string;
+    delimiter?: string;
+    prefix?: string;
+    maxUploads?: number;
+    isTruncated?: boolean;
+    commonPrefixes: string[];
+    uploads: MultipartUpload[];
+}
+
+/**
+ * Bucket 的版本控制状态。Bucket 开启版本控制之后只能暂停，不能关闭
+ */
+export type BucketVersioningStatus = "Enabled" | "Suspended";
+
+/**
+ * List object versions query parameters.
+ * See [Official Document](https://help.aliyun.com/zh/oss/developer-reference/listobjectversions) for more details.
+ */
+export interface ListObjectVersionsQuery extends CommonOptions {
+    /**
+     * 对 Object 名字进行分组的字符。所有名字包含指定的前缀且第一次出现 `delimiter` 字符之间的 Object 作为一组元素（即 CommonPrefixes）。
+     */
+    delimiter?: string;
+
+    /**
+     * 与 `versionIdMarker` 一起使用，用于指定返回结果的起始位置。
+     *
+     * - 如果没有设置 `versionIdMarker`，则返回 Object 名字字典序大于 `keyMarker` 的版本。
+     * - 如果设置了 `versionIdMarker`，则同时返回 Object 名字等于 `keyMarker` 且排在 `versionIdMarker` 之后的版本。
+     */
+    keyMarker?: string;
+
+    /**
+     * 与 `keyMarker` 一起使用，用于指定返回结果的起始位置。如果没有设置 `keyMarker`，则此参数无效。
+     */
+    versionIdMarker?: string;
+
+    /**
+     * 限定此次返回版本的最大个数，包括删除标记。取值范围：`1~1000`。默认值：`100`
+     */
+    maxKeys?: number;
+
+    /**
+     * 限定返回的 Object 名字必须以 `prefix` 作为前缀。
+     */
+    prefix?: string;
+}
+
+/**
+ * Object 的一个版本
+ */
+export interface ObjectVersion {
+    key: string;
+    versionId: string;
+
+    /**
+     * 是否为 Object 的当前版本
+     */
+    isLatest: boolean;
+    lastModified: Date;
+    eTag: string;
+    type: string;
+    size: number;
+    storageClass: string;
+    owner?: Owner;
+}
+
+/**
+ * 删除标记。在开启了版本控制的 Bucket 中删除 Object 时不指定 `versionId`，会生成一个删除标记作为 Object 的当前版本
+ */
+export interface DeleteMarker {
+    key: string;
+    versionId: string;
+    isLatest: boolean;
+    lastModified: Date;
+    owner?: Owner;
+}
+
+export interface ListObjectVersionsResult {
+    name: string;
+    prefix?: string;
+    keyMarker?: string;
+    versionIdMarker?: string;
+    nextKeyMarker?: string;
+    nextVersionIdMarker?: string;
+    delimiter?: string;
+    maxKeys?: number;
+    isTruncated?: boolean;
+    commonPrefixes: string[];
+    versions: ObjectVersion[];
+    deleteMarkers: DeleteMarker[];
+}
+
+/**
+ * Bucket 的存储类型
+ */
+export type BucketStorageClass = "Standard" | "IA" | "Archive" | "ColdArchive" | "DeepColdArchive";
+
+/**
+ * Bucket 的数据容灾类型
+ *
+ * - `LRS`：本地冗余存储
+ * - `ZRS`：同城冗余存储
+ */
+export type DataRedundancyType = "LRS" | "ZRS";
+
+/**
+ * Put bucket options.
+ * See [Official Document](https://help.aliyun.com/zh/oss/developer-reference/putbucket) for more details.
+ */
+export interface PutBucketOptions extends CommonOptions {
+    /**
+     * Bucket 的访问权限。默认值：`private`
+     */
+    acl?: Acl;
+
+    /**
+     * Bucket 的存储类型。默认值：`Standard`
+     */
+    storageClass?: BucketStorageClass;
+
+    /**
+     * Bucket 的数据容灾类型。默认值：`LRS`
+     */
+    dataRedundancyType?: DataRedundancyType;
+
+    /**
+     * Bucket 所属的资源组 ID。如果不设置，则 Bucket 属于默认资源组
+     */
+    resourceGroupId?: string;
+}
+
+/**
+ * Bucket 的存储容量和文件数量。存储量以字节为单位。
+ * See [Official Document](https://help.aliyun.com/zh/oss/developer-reference/getbucketstat) for more details.
+ */
+export interface BucketStat {
+    storage: number;
+    objectCount: number;
+    multipartUploadCount: number;
+    liveChannelCount: number;
+
+    /**
+     * 获取到的存储信息的时间点
+     */
+    lastModifiedTime: Date;
+    standardStorage: number;
+    standardObjectCount: number;
+    infrequentAccessStorage: number;
+    infrequentAccessRealStorage: number;
+    infrequentAccessObjectCount: number;
+    archiveStorage: number;
+    archiveRealStorage: number;
+    archiveObjectCount: number;
+    coldArchiveStorage: number;
+    coldArchiveRealStorage: number;
+    coldArchiveObjectCount: number;
+    deepColdArchiveStorage?: number;
+    deepColdArchiveRealStorage?: number;
+    deepColdArchiveObjectCount?: number;
+    deleteMarkerCount?: number;
+}
+/**
+ * Bucket 的访问权限
+ */
+export interface GetBucketAclResult {
+    owner: Owner;
+    grant: Acl;
+}
+
+/**
+ * 生命周期规则中 Object 转换的目标存储类型
+ */
+export type TransitionStorageClass = "IA" | "Archive" | "ColdArchive" | "DeepColdArchive";
+
+/**
+ * 生命周期规则的执行时间。`days` 和 `createdBeforeDate` 只能设置一个
+ */
+export interface LifecycleTime {
+    /**
+     * Object 最后一次修改之后多少天执行规则
+     */
+    days?: number;
+
+    /**
+     * 对最后修改时间早于该日期的 Object 执行规则。日期必须是 UTC 零点，例如：`2024-01-01T00:00:00.000Z`
+     */
+    createdBeforeDate?: Date;
+}
+
+export interface LifecycleExpiration extends LifecycleTime {
+    /**
+     * 是否自动删除过期的删除标记。仅在开启了版本控制的 Bucket 中有效，不能和 `days`、`createdBeforeDate` 同时设置
+     */
+    expiredObjectDeleteMarker?: boolean;
+}
+
+export interface LifecycleTransition extends LifecycleTime {
+    storageClass: TransitionStorageClass;
+
+    /**
+     * 是否基于最后一次访问时间执行规则。需要先开启 Bucket 的访问跟踪
+     */
+    isAccessTime?: boolean;
+
+    /**
+     * 基于最后一次访问时间转换为低频访问之后，再次访问时是否转换回标准存储
+     */
+    returnToStdWhenVisit?: boolean;
+}
+
+export interface NoncurrentVersionTransition {
+    /**
+     * Object 成为历史版本之后多少天执行规则
+     */
+    noncurrentDays: number;
+    storageClass: TransitionStorageClass;
+    isAccessTime?: boolean;
+    returnToStdWhenVisit?: boolean;
+}
+
+/**
+ * Bucket 的生命周期规则。
+ * See [Official Document](https://help.aliyun.com/zh/oss/developer-reference/putbucketlifecycle) for more details.
+ */
+export interface LifecycleRule {
+    /**
+     * 规则的唯一 ID。不设置时由 OSS 生成
+     */
+    id?: string;
+
+    /**
+     * 规则应用的 Object 名字前缀。不设置时规则应用于整个 Bucket
+     */
+    prefix?: string;
+
+    status: "Enabled" | "Disabled";
+
+    /**
+     * 规则只应用于同时具有这些标签的 Object
+     */
+    tags?: Record<string, string>;
+
+    /**
+     * 过期删除 Object
+     */
+    expiration?: LifecycleExpiration;
+
+    /**
+     * 转换 Object 的存储类型
+     */
+    transitions?: LifecycleTransition[];
+
+    /**
+     * 删除过期的未完成分片上传事件
+     */
+    abortMultipartUpload?: LifecycleTime;
+
+    /**
+     * 删除历史版本。仅在开启了版本控制的 Bucket 中有效
+     */
+    noncurrentVersionExpiration?: {
+        noncurrentDays: number;
+    };
+
+    /**
+     * 转换历史版本的存储类型。仅在开启了版本控制的 Bucket 中有效
+     */
+    noncurrentVersionTransitions?: NoncurrentVersionTransition[];
+}
+
+/**
+ * 跨域资源共享（CORS）规则
+ */
+export interface CorsRule {
+    /**
+     * 允许的跨域请求来源，可以使用一个 `*` 通配符
+     */
+    allowedOrigins: string[];
+
+    /**
+     * 允许的跨域请求方法
+     */
+    allowedMethods: Array<"GET" | "PUT" | "DELETE" | "POST" | "HEAD">;
+
+    /**
+     * 允许的跨域请求 header，可以使用一个 `*` 通配符
+     */
+    allowedHeaders?: string[];
+
+    /**
+     * 允许浏览器中的应用程序访问的响应 header，不能使用通配符
+     */
+    exposeHeaders?: string[];
+
+    /**
+     * 浏览器对特定资源的预取（OPTIONS）请求返回结果的缓存时间，单位为秒
+     */
+    maxAgeSeconds?: number;
+}
+
+/**
+ * Bucket 的跨域资源共享配置。
+ * See [Official Document](https://help.aliyun.com/zh/oss/developer-reference/putbucketcors) for more details.
+ */
+export interface CorsConfiguration {
+    /**
+     * 最多 10 条规则
+     */
+    rules: CorsRule[];
+
+    /**
+     * 是否在响应中返回 `Vary: Origin` header。默认为 `false`
+     */
+    responseVary?: boolean;
+}
+
+/**
+ * Bucket Policy 中的一条授权语句
+ */
+export interface BucketPolicyStatement {
+    /**
+     * 授权效力
+     */
+    effect: "Allow" | "Deny";
+
+    /**
+     * 授权的操作，例如：`oss:GetObject`、`oss:*`
+     */
+    action: string[];
+
+    /**
+     * 授权的用户，例如 RAM 用户的 UID。`*` 表示所有用户
+     */
+    principal?: string[];
+
+    /**
+     * 授权的资源，例如：`acs:oss:*:*:examplebucket/*`
+     */
+    resource: string[];
+
+    /**
+     * 授权生效的条件，例如：`{ "IpAddress": { "acs:SourceIp": ["192.168.0.0/16"] } }`
+     */
+    condition?: Record<string, Record<string, string | string[]>>;
+}
+
+/**
+ * Bucket Policy，以 JSON 格式保存在 OSS。
+ * See [Official Document](https://help.aliyun.com/zh/oss/user-guide/policy-syntax-and-use) for more details.
+ */
+export interface BucketPolicy {
+    /**
+     * 策略语法的版本，默认值为 `"1"`
+     */
+    version?: string;
+    statement: BucketPolicyStatement[];
+}
+
+/**
+ * Bucket 的防盗链配置。
+ * See [Official Document](https://help.aliyun.com/zh/oss/developer-reference/putbucketreferer) for more details.
+ */
+export interface RefererConfiguration {
+    /**
+     * 是否允许 Referer 字段为空的请求访问 OSS
+     */
+    allowEmptyReferer: boolean;
+
+    /**
+     * 匹配 Referer 时是否忽略 URL 中的 QueryString。默认值：`true`
+     */
+    allowTruncateQueryString?: boolean;
+
+    /**
+     * 匹配 Referer 时是否截断 URL 中的路径部分。只有 `allowTruncateQueryString` 为 `true` 时才能设置为 `true`
+     */
+    truncatePath?: boolean;
+
+    /**
+     * Referer 白名单，可以使用 `*` 和 `?` 通配符。为空时表示不限制
+     */
+    refererList: string[];
+
+    /**
+     * Referer 黑名单，可以使用 `*` 和 `?` 通配符
+     */
+    refererBlacklist?: string[];
+}
+
+/**
+ * 静态网站托管的默认首页
+ */
+export interface WebsiteIndexDocument {
+    /**
+     * 默认首页，例如：`index.html`
+     */
+    suffix: string;
+
+    /**
+     * 访问子目录时是否转到子目录下的默认首页
+     */
+    supportSubDir?: boolean;
+
+    /**
+     * 开启子目录首页后，访问以非正斜线（`/`）结尾的 Object 并且该 Object 不存在时的行为：
+     *
+     * - `0`：检查 `Object + "/" + 默认首页` 是否存在，存在则返回 302 重定向到 `Object + "/"`。默认值
+     * - `1`：直接返回 404
+     * - `2`：检查 `Object + "/" + 默认首页` 是否存在，存在则返回该默认首页的内容
+     */
+    type?: 0 | 1 | 2;
+}
+
+/**
+ * 静态网站托管的默认 404 页
+ */
+export interface WebsiteErrorDocument {
+    key: string;
+
+    /**
+     * 返回默认 404 页时的 HTTP 状态码，`404` 或者 `200`。默认值：`404`
+     */
+    httpStatus?: 404 | 200;
+}
+
+/**
+ * 路由规则的匹配条件，全部条件都满足时才会执行规则
+ */
+export interface RoutingRuleCondition {
+    keyPrefixEquals?: string;
+    keySuffixEquals?: string;
+
+    /**
+     * 访问指定 Object 时返回此状态码才能匹配规则。镜像回源时必须设置为 `404`
+     */
+    httpErrorCodeReturnedEquals?: number;
+
+    /**
+     * 请求中包含指定的 header 并且值相等时才能匹配规则
+     */
+    includeHeaders?: Array<{ key: string; equals: string }>;
+}
+
+/**
+ * 镜像回源时 header 的处理方式
+ */
+export interface MirrorHeaders {
+    /**
+     * 是否透传除了部分系统 header 之外的全部 header 到源站
+     */
+    passAll?: boolean;
+
+    /**
+     * 透传到源站的 header
+     */
+    pass?: string[];
+
+    /**
+     * 禁止透传到源站的 header
+     */
+    remove?: string[];
+
+    /**
+     * 设置传到源站的 header，不管请求中是否包含这些 header
+     */
+    set?: Record<string, string>;
+}
+
+/**
+ * 路由规则匹配之后的跳转动作
+ */
+export interface RoutingRuleRedirect {
+    /**
+     * 跳转类型：
+     *
+     * - `Mirror`：镜像回源
+     * - `External`：外部跳转，返回 3xx 跳转到其他地址
+     * - `AliCDN`：阿里云 CDN 跳转
+     * - `Internal`：内部跳转，跳转到同一个 Bucket 中的另一个 Object
+     */
+    redirectType: "Mirror" | "External" | "AliCDN" | "Internal";
+
+    /**
+     * 跳转时是否携带请求参数
+     */
+    passQueryString?: boolean;
+
+    /**
+     * 镜像回源的源站地址，必须以 `http://` 或者 `https://` 开头，以 `/` 结尾
+     */
+    mirrorURL?: string;
+    mirrorPassQueryString?: boolean;
+
+    /**
+     * 源站返回 3xx 时是否跟随跳转获取资源
+     */
+    mirrorFollowRedirect?: boolean;
+
+    /**
+     * 是否检查回源 body 的 MD5
+     */
+    mirrorCheckMd5?: boolean;
+    mirrorHeaders?: MirrorHeaders;
+
+    /**
+     * 外部跳转时的协议
+     */
+    protocol?: "http" | "https";
+
+    /**
+     * 外部跳转时的域名
+     */
+    hostName?: string;
+
+    /**
+     * 外部跳转时的状态码，`301`、`302` 或者 `307`
+     */
+    httpRedirectCode?: 301 | 302 | 307;
+
+    /**
+     * 跳转时将 Object 名字的前缀 `keyPrefixEquals` 替换为此值。需要同时设置 `enableReplacePrefix` 为 `true`
+     */
+    replaceKeyPrefixWith?: string;
+    enableReplacePrefix?: boolean;
+
+    /**
+     * 跳转时将 Object 名字替换为此值，可以使用变量 `${key}` 表示原来的 Object 名字
+     */
+    replaceKeyWith?: string;
+}
+
+export interface RoutingRule {
+    /**
+     * 规则的序号，按照序号从小到大依次匹配，只执行第一条匹配的规则
+     */
+    ruleNumber: number;
+    condition: RoutingRuleCondition;
+    redirect: RoutingRuleRedirect;
+}
+
+/**
+ * Bucket 的静态网站托管配置。
+ * See [Official Document](https://help.aliyun.com/zh/oss/developer-reference/putbucketwebsite) for more details.
+ */
+export interface WebsiteConfiguration {
+    indexDocument?: WebsiteIndexDocument;
+    errorDocument?: WebsiteErrorDocument;
+    routingRules?: RoutingRule[];
+}
+
+/**
+ * Bucket 的访问日志配置。
+ * See [Official Document](https://help.aliyun.com/zh/oss/developer-reference/putbucketlogging) for more details.
+ */
+export interface BucketLoggingConfiguration {
+    /**
+     * 存储访问日志的 Bucket，必须和源 Bucket 属于同一个账号并且在同一个地域，可以是源 Bucket 自己
+     */
+    targetBucket: string;
+
+    /**
+     * 访问日志文件名字的前缀。不设置时日志文件保存在目标 Bucket 的根目录
+     */
+    targetPrefix?: string;
+}
+
+/**
+ * Bucket 默认的服务端加密方式。
+ * See [Official Document](https://help.aliyun.com/zh/oss/developer-reference/putbucketencryption) for more details.
+ */
+export interface BucketEncryptionRule {
+    /**
+     * 服务端默认加密方式
+     */
+    sseAlgorithm: "AES256" | "KMS" | "SM4";
+
+    /**
+     * KMS 托管的用户主密钥 ID。仅在 `sseAlgorithm` 为 `KMS` 时有效，不设置时使用 KMS 默认托管的主密钥
+     */
+    kmsMasterKeyId?: string;
+
+    /**
+     * 使用 KMS 加密时 Object 数据的加密算法。仅在 `sseAlgorithm` 为 `KMS` 时有效，不设置时使用 AES256
+     */
+    kmsDataEncryption?: "SM4";
+}
+
+export class BucketOperation extends Operation {
+    constructor(clientConfig: ClientConfig) {
+        super(clientConfig);
+    }
+
+    /**
+     * List buckets which satisfied query.
+     * See [Official Documents](https://help.aliyun.com/zh/oss/developer-reference/listbuckets?spm=a2c4g.11186623.0.0.1b0ab930SHOdG9) for more details.
+     */
+    async #listBuckets(options?: ListBucketsOptions): Promise<ListBucketsResult> {
+        const { prefix, marker, maxKeys, resourceGroupId, timeoutMs, signal } = Object.assign({}, options);
+
+        const requestQuery: Record<string, string> = {};
+        if (prefix) {
+            requestQuery.prefix = prefix;
+        }
+
+        if (marker) {
+            requestQuery.marker = marker;
+        }
+
+        if (maxKeys) {
+            requestQuery["max-keys"] = `${maxKeys}`;
+        }
+
+        const requestHeaders: Record<string, string> = {};
+        if (resourceGroupId) {
+            requestHeaders["x-oss-resource-group-id"] = resourceGroupId;
+        }
+
+        const requestConfig: RequestConfig = {
+            method: "GET",
+            query: requestQuery,
+            headers: requestHeaders,
+            timeoutMs,
+            signal,
+        };
+
+        const { content } = await super.doRequest(requestConfig);
+        return this.#parseListBucketsResponseContent(content!);
+    }
+
+    /**
+     * List buckets with query parameters
+     * @return {Promise<Bucket[]>}       
+     */
+    async listBuckets(options?: ListBucketsOptions): Promise<Bucket[]> {
+        const result = await this.#listBuckets(options);
+        return result.buckets;
+    }
+
+    /**
+     * list all buckets
+     * @return {Promise<Bucket[]>}          
+     */
+    async listAllBuckets(options?: CommonOptions): Promise<Bucket[]> {
+        const allBuckets: Bucket[] = [];
+        let marker: string | null = null;
+
+        while (true) {
+            const q: ListBucketsOptions = Object.assign({}, options);
+
+            if (marker) {
+                q.marker = marker;
+            }
+
+            const result = await this.#listBuckets(q);
+            result.buckets.forEach(b => allBuckets.push(b));
+
+            if (result.isTruncated && result.nextMarker) {
+                marker = result.nextMarker;
+            } else {
+                break;
+            }
+        }
+
+        return allBuckets;
+    }
+
+    #parseListBucketsResponseContent(responseContent: string): ListBucketsResult {
+        const doc = parseXml(responseContent);
+
+        //@ts-ignore xml parser
+        const resultDoc = doc.ListAllMyBucketsResult;
+
+        const { 
+            //@ts-ignore xml parser
+            Prefix: prefix, 
+
+            //@ts-ignore xml parser
+            Marker: marker, 
+
+            //@ts-ignore xml parser
+            MaxKeys: maxKeys,  
+
+            //@ts-ignore xml parser
+            IsTruncated: isTruncated,
+
+            //@ts-ignore xml parser
+            NextMarker: nextMarker
+        } = resultDoc;
+
+        const result: ListBucketsResult = {
+            buckets: []
+        };
+
+        if (prefix) {
+            result.prefix = prefix;
+        }
+
+        if (marker) {
+            result.marker = marker;
+        }
+
+        if (maxKeys) {
+            result.maxKeys = parseInt(maxKeys);
+        }
+
+        if (isTruncated !== undefined) {
+            result.isTruncated = isTruncated;
+        }
+
+        if (nextMarker) {
+            result.nextMarker = nextMarker;
+        }
+
+        // 如果返回只有一个 Bucket，xml parser 会解析成一个对象而不是一个数组
+        // 所以要进行特殊的处理
+        //@ts-ignore xml parser
+        const bucketsDoc = Array.isArray(resultDoc.Buckets.Bucket) ? resultDoc.Buckets.Bucket : [resultDoc.Buckets.Bucket];
+        if (bucketsDoc) {
+            //@ts-ignore xml parser
+            bucketsDoc.forEach(b => {
+                const {
+                    Comment: comment,
+                    CreationDate: creationDate,
+                    ExtranetEndpoint: extranetEndpoint,
+                    IntranetEndpoint: intranetEndpoint,
+                    Location: location,
+                    Name: name,
+                    Region: region,
+                    StorageClass: storageClass,
+                    ResourceGroupId: resourceGroupId,
+                } = b;
+
+                const bucket: Bucket = {
+                    name, 
+                    comment,
+                    creationDate: new Date(creationDate),
+                    extranetEndpoint,
+                    intranetEndpoint,
+                    location,
+                    region,
+                    storageClass,
+                    resourceGroupId,
+                };
+
+                result.buckets.push(bucket);
+            });
+        }
+
+        return result;
+    }
+
+    /**
+     * Get bucket detail informaiton
+     * @param {string} bucketName [description]
+     */
+    async getBucketInfo(bucketName: string, options?: CommonOptions): Promise<BucketInfo> {
+        const query: Record<string, string | null> = {
+            bucketInfo: null
+        };
+        
+        const requestConfig: RequestConfig = {
+            method: "GET",
+            bucketName: bucketName,
+            query: query,
+            timeoutMs: options?.timeoutMs,
+            signal: options?.signal,
+        };
+
+        const { content } = await super.doRequest(requestConfig);
+        //@ts-ignore xml parser
+        const bucketNode = parseXml(content!).BucketInfo.Bucket;
+
+        //@ts-ignore xml parser
+        const {
+            Comment: comment,
+            CreationDate: creationDate,
+            ExtranetEndpoint: extranetEndpoint,
+            IntranetEndpoint: intranetEndpoint,
+            Location: location,
+            Name: name,
+            Region: region,
+            StorageClass: storageClass,
+            ResourceGroupId: resourceGroupId,
+            AccessMonitor: accessMonitor,
+            BlockPublicAccess: blockPublicAccess,
+            CrossRegionReplication: crossRegionReplication,
+            DataRedundancyType: dataRedundancyType,
+            KMSMasterKeyID: kmsMasterKeyId,
+            TransferAcceleration: transferAcceleration,
+            AccessControlList: accessControlList,
+            ServerSideEncryptionRule: serverSideEncryptionRule,
+            BucketPolicy: bucketPolicy,
+            Versioning: versioning,
+        } = bucketNode;
+
+        const bucketInfo: BucketInfo = {
+            name, 
+            comment,
+            creationDate: new Date(creationDate),
+            extranetEndpoint,
+            intranetEndpoint,
+            location,
+            region,
+            storageClass,
+            resourceGroupId,
+            blockPublicAccess,
+            accessMonitor,
+            crossRegionReplication,
+            dataRedundancyType,
+            kmsMasterKeyId,
+            accessControlList: {
+                grant: accessControlList?.Grant
+            },
+            transferAcceleration,
+            serverSideEncryptionRule: {
+                sseAlgorithm: serverSideEncryptionRule?.SSEAlgorithm
+            },
+            bucketPolicy: {
+                logBucket: bucketPolicy?.LogBucket,
+                logPrefix: bucketPolicy?.LogPrefix
+            },
+            versioning,
+        };
+
+        return bucketInfo;
+    }
+
+    /**
+     * List objects
+     */
+    async listObjects(bucketName: string, query?: ListObjectsQuery): Promise<ListObjectsResult> {
+        const params: Record<string, string | number | boolean> = {
+            "list-type": 2,
+        };
+
+        const { timeoutMs, signal, ...listQuery } = Object.assign({}, query);
+        Object.entries(listQuery).forEach(([k, v]) => params[camelToKebab(k)] = v);
+
+        const requestConfig: RequestConfig = {
+            method: "GET",
+            bucketName,
+            query: params,
+            timeoutMs,
+            signal,
+        };
+
+        const { content } = await super.doRequest(requestConfig);
+        const doc = parseXml(content!);
+        //@ts-ignore xml parser
+        const resultNode = doc.ListBucketResult;
+        
+        //@ts-ignore xml parser
+        const { Name: name, Prefix: prefix, MaxKeys: maxKeys, Delimiter: delimiter, IsTruncated: isTruncated, NextContinuationToken: nextContinuationToken, KeyCount: keyCount } = resultNode;
+        
+        //@ts-ignore xml parser
+        const commonPrefixes: string[] = [];
+
+        //@ts-ignore xml parser
+        if (resultNode.CommonPrefixes) {
+            //@ts-ignore xml parser
+            const commonPrefixeNodes = Array.isArray(resultNode.CommonPrefixes) ? resultNode.CommonPrefixes : [resultNode.CommonPrefixes];
+
+            //@ts-ignore xml parser
+            commonPrefixeNodes.forEach(n => commonPrefixes.push(n.Prefix));
+        }
+        
+        const contents: ListObjectsContent[] = [];
+
+        //@ts-ignore xml parser
+        if (resultNode.Contents) {
+            //@ts-ignore xml parser
+            const contentsNodes = Array.isArray(resultNode.Contents) ? resultNode.Contents : [resultNode.Contents];
+            //@ts-ignore xml parser
+            contentsNodes.forEach(n => {
+                //@ts-ignore xml parser
+                contents.push({
+                    key: n.Key,
+                    lastModified: new Date(n.LastModified),
+                    eTag: n.ETag,
+                    type: n.Type,
+                    size: n.Size,
+                    storageClass: n.StorageClass,
+                    restoreInfo: n.RestoreInfo
+                });
+            });
+        }
+
+        return {
+            name,
+            prefix, 
+            maxKeys,
+            delimiter,
+            isTruncated,
+            nextContinuationToken,
+            keyCount,
+            commonPrefixes,
+            contents
+        };
+    }
+
+    /**
+     * 列出 Bucket 中尚未完成或者取消的分片上传事件
+     */
+    async listMultipartUploads(bucketName: string, query?: ListMultipartUploadsQuery): Promise<ListMultipartUploadsResult> {
+        if (isBlank(bucketName)) {
+            throw new ClientError("bucketName is required, can not be empty");
+        }
+
+        const params: Record<string, string | number | null> = {
+            uploads: null,
+        };
+
+        const { timeoutMs, signal, ...listQuery } = Object.assign({}, query);
+        Object.entries(listQuery).forEach(([k, v]) => params[camelToKebab(k)] = v);
+
+        const requestConfig: RequestConfig = {
+            method: "GET",
+            bucketName,
+            query: params,
+            timeoutMs,
+            signal,
+        };
+
+        const { content } = await super.doRequest(requestConfig);
+        //@ts-ignore xml parser
+        const resultNode = parseXml(content!).ListMultipartUploadsResult;
+
+        const commonPrefixes: string[] = [];
+
+        //@ts-ignore xml parser
+        if (resultNode.CommonPrefixes) {
+            //@ts-ignore xml parser
+            const commonPrefixeNodes = Array.isArray(resultNode.CommonPrefixes) ? resultNode.CommonPrefixes : [resultNode.CommonPrefixes];
+
+            //@ts-ignore xml parser
+            commonPrefixeNodes.forEach(n => commonPrefixes.push(`${n.Prefix}`));
+        }
+
+        const uploads: MultipartUpload[] = [];
+
+        //@ts-ignore xml parser
+        if (resultNode.Upload) {
+            //@ts-ignore xml parser
+            const uploadNodes = Array.isArray(resultNode.Upload) ? resultNode.Upload : [resultNode.Upload];
+            //@ts-ignore xml parser
+            uploadNodes.forEach(n => {
+                uploads.push({
+                    objectKey: `${n.Key}`,
+                    uploadId: `${n.UploadId}`,
+                    initiated: new Date(n.Initiated),
+                });
+            });
+        }
+
+        const {
+            //@ts-ignore xml parser
+            Bucket: resultBucketName,
+
+            //@ts-ignore xml parser
+            KeyMarker: keyMarker,
+
+            //@ts-ignore xml parser
+            UploadIdMarker: uploadIdMarker,
+
+            //@ts-ignore xml parser
+            NextKeyMarker: nextKeyMarker,
+
+            //@ts-ignore xml parser
+            NextUploadIdMarker: nextUploadIdMarker,
+
+            //@ts-ignore xml parser
+            Delimiter: delimiter,
+
+            //@ts-ignore xml parser
+            Prefix: prefix,
+
+            //@ts-ignore xml parser
+            MaxUploads: maxUploads,
+
+            //@ts-ignore xml parser
+            IsTruncated: isTruncated
+        } = resultNode;
+
+        return {
+            bucketName: `${resultBucketName}`,
+            keyMarker: optionalString(keyMarker),
+            uploadIdMarker: optionalString(uploadIdMarker),
+            nextKeyMarker: optionalString(nextKeyMarker),
+            nextUploadIdMarker: optionalString(nextUploadIdMarker),
+            delimiter: optionalString(delimiter),
+            prefix: optionalString(prefix),
+            maxUploads,
+            isTruncated,
+            commonPrefixes,
+            uploads,
+        };
+    }
+
+    /**
+     * 取消 Bucket 中在 `initiatedBefore` 之前初始化的全部分片上传事件，已经上传的分片会被删除。
+     * 可以通过 `prefix` 限定 Object 名字的前缀。
+     *
+     * 返回被取消的分片上传事件。
+     */
+    async abortMultipartUploadsBefore(bucketName: string, initiatedBefore: Date, prefix?: string, options?: CommonOptions): Promise<MultipartUpload[]> {
+        const abortedUploads: MultipartUpload[] = [];
+        let keyMarker: string | undefined;
+        let uploadIdMarker: string | undefined;
+
+        while (true) {
+            const q: ListMultipartUploadsQuery = Object.assign({}, options);
+
+            if (prefix) {
+                q.prefix = prefix;
+            }
+
+            if (keyMarker) {
+                q.keyMarker = keyMarker;
+                if (uploadIdMarker) {
+                    q.uploadIdMarker = uploadIdMarker;
+                }
+            }
+
+            const result = await this.listMultipartUploads(bucketName, q);
+
+            for (const upload of result.uploads) {
+                if (upload.initiated.getTime() >= initiatedBefore.getTime()) {
+                    continue;
+                }
+
+                const requestConfig: RequestConfig = {
+                    method: "DELETE",
+                    bucketName,
+                    objectKey: upload.objectKey,
+                    query: {
+                        uploadId: upload.uploadId,
+                    },
+                    timeoutMs: options?.timeoutMs,
+                    signal: options?.signal,
+                };
+
+                try {
+                    await super.doRequest(requestConfig);
+                } catch (e) {
+                    // 分片上传事件可能已经被其他调用者完成或者取消了
+                    if (e instanceof ClientError && e.code === "NoSuchUpload") {
+                        continue;
+                    }
+                    throw e;
+                }
+
+                abortedUploads.push(upload);
+            }
+
+            if (result.isTruncated && result.nextKeyMarker) {
+                keyMarker = result.nextKeyMarker;
+                uploadIdMarker = result.nextUploadIdMarker;
+            } else {
+                break;
+            }
+        }
+
+        return abortedUploads;
+    }
+
+    /**
+     * 创建 Bucket
+     */
+    async putBucket(bucketName: string, options?: PutBucketOptions): Promise<void> {
+        if (isBlank(bucketName)) {
+            throw new ClientError("bucketName is required, can not be empty");
+        }
+
+        const headers: Record<string, string> = {};
+        if (options?.acl) {
+            headers["x-oss-acl"] = options!.acl;
+        }
+
+        if (options?.resourceGroupId) {
+            headers["x-oss-resource-group-id"] = options!.resourceGroupId;
+        }
+
+        const lines = [
+            "<?xml version=\"1.0\" encoding=\"UTF-8\"?>",
+            "<CreateBucketConfiguration>"
+        ];
+
+        if (options?.storageClass) {
+            lines.push(`<StorageClass>${escapeXmlSpecialChars(options!.storageClass)}</StorageClass>`);
+        }
+
+        if (options?.dataRedundancyType) {
+            lines.push(`<DataRedundancyType>${escapeXmlSpecialChars(options!.dataRedundancyType)}</DataRedundancyType>`);
+        }
+
+        lines.push("</CreateBucketConfiguration>");
+
+        const requestConfig: RequestConfig = {
+            method: "PUT",
+            bucketName,
+            headers,
+            timeoutMs: options?.timeoutMs,
+            signal: options?.signal,
+        };
+
+        await super.doXmlRequest(requestConfig, lines.join("\n"));
+    }
+
+    /**
+     * 删除 Bucket。只有 Bucket 中的 Object、分片上传事件等资源都删除之后才能删除 Bucket
+     */
+    async deleteBucket(bucketName: string, options?: CommonOptions): Promise<void> {
+        if (isBlank(bucketName)) {
+            throw new ClientError("bucketName is required, can not be empty");
+        }
+
+        const requestConfig: RequestConfig = {
+            method: "DELETE",
+            bucketName,
+            timeoutMs: options?.timeoutMs,
+            signal: options?.signal,
+        };
+
+        await super.doRequest(requestConfig);
+    }
+
+    /**
+     * 获取 Bucket 所在的地域，例如：`oss-cn-hangzhou`
+     */
+    async getBucketLocation(bucketName: string, options?: CommonOptions): Promise<string> {
+        if (isBlank(bucketName)) {
+            throw new ClientError("bucketName is required, can not be empty");
+        }
+
+        const requestConfig: RequestConfig = {
+            method: "GET",
+            bucketName,
+            query: {
+                location: null,
+            },
+            timeoutMs: options?.timeoutMs,
+            signal: options?.signal,
+        };
+
+        const { content } = await super.doRequest(requestConfig);
+        //@ts-ignore xml parser
+        return `${parseXml(content!).LocationConstraint}`;
+    }
+
+    /**
+     * 获取 Bucket 的存储容量以及文件（Object）数量
+     */
+    async getBucketStat(bucketName: string, options?: CommonOptions): Promise<BucketStat> {
+        if (isBlank(bucketName)) {
+            throw new ClientError("bucketName is required, can not be empty");
+        }
+
+        const requestConfig: RequestConfig = {
+            method: "GET",
+            bucketName,
+            query: {
+                stat: null,
+            },
+            timeoutMs: options?.timeoutMs,
+            signal: options?.signal,
+        };
+
+        const { content } = await super.doRequest(requestConfig);
+        //@ts-ignore xml parser
+        const statNode = parseXml(content!).BucketStat;
+
+        const {
+            //@ts-ignore xml parser
+            Storage: storage,
+
+            //@ts-ignore xml parser
+            ObjectCount: objectCount,
+
+            //@ts-ignore xml parser
+            MultipartUploadCount: multipartUploadCount,
+
+            //@ts-ignore xml parser
+            LiveChannelCount: liveChannelCount,
+
+            //@ts-ignore xml parser
+            LastModifiedTime: lastModifiedTime,
+
+            //@ts-ignore xml parser
+            StandardStorage: standardStorage,
+
+            //@ts-ignore xml parser
+            StandardObjectCount: standardObjectCount,
+
+            //@ts-ignore xml parser
+            InfrequentAccessStorage: infrequentAccessStorage,
+
+            //@ts-ignore xml parser
+            InfrequentAccessRealStorage: infrequentAccessRealStorage,
+
+            //@ts-ignore xml parser
+            InfrequentAccessObjectCount: infrequentAccessObjectCount,
+
+            //@ts-ignore xml parser
+            ArchiveStorage: archiveStorage,
+
+            //@ts-ignore xml parser
+            ArchiveRealStorage: archiveRealStorage,
+
+            //@ts-ignore xml parser
+            ArchiveObjectCount: archiveObjectCount,
+
+            //@ts-ignore xml parser
+            ColdArchiveStorage: coldArchiveStorage,
+
+            //@ts-ignore xml parser
+            ColdArchiveRealStorage: coldArchiveRealStorage,
+
+            //@ts-ignore xml parser
+            ColdArchiveObjectCount: coldArchiveObjectCount,
+
+            //@ts-ignore xml parser
+            DeepColdArchiveStorage: deepColdArchiveStorage,
+
+            //@ts-ignore xml parser
+            DeepColdArchiveRealStorage: deepColdArchiveRealStorage,
+
+            //@ts-ignore xml parser
+            DeepColdArchiveObjectCount: deepColdArchiveObjectCount,
+
+            //@ts-ignore xml parser
+            DeleteMarkerCount: deleteMarkerCount
+        } = statNode;
+
+        return {
+            storage,
+            objectCount,
+            multipartUploadCount,
+            liveChannelCount,
+            lastModifiedTime: new Date(lastModifiedTime * 1000),
+            standardStorage,
+            standardObjectCount,
+            infrequentAccessStorage,
+            infrequentAccessRealStorage,
+            infrequentAccessObjectCount,
+            archiveStorage,
+            archiveRealStorage,
+            archiveObjectCount,
+            coldArchiveStorage,
+            coldArchiveRealStorage,
+            coldArchiveObjectCount,
+            deepColdArchiveStorage,
+            deepColdArchiveRealStorage,
+            deepColdArchiveObjectCount,
+            deleteMarkerCount,
+        };
+    }
+
+    /**
+     * 获取 Bucket 的访问权限
+     */
+    async getBucketAcl(bucketName: string, options?: CommonOptions): Promise<GetBucketAclResult> {
+        if (isBlank(bucketName)) {
+            throw new ClientError("bucketName is required, can not be empty");
+        }
+
+        const requestConfig: RequestConfig = {
+            method: "GET",
+            bucketName,
+            query: {
+                acl: null,
+            },
+            timeoutMs: options?.timeoutMs,
+            signal: options?.signal,
+        };
+
+        const { content } = await super.doRequest(requestConfig);
+        const {
+            //@ts-ignore xml parser
+            Owner: owner,
+
+            //@ts-ignore xml parser
+            AccessControlList: accessControlList
+        } = parseXml(content!).AccessControlPolicy;
+
+        return {
+            owner: {
+                id: `${owner?.ID}`,
+                displayName: `${owner?.DisplayName}`,
+            },
+            grant: accessControlList?.Grant,
+        };
+    }
+
+    /**
+     * 设置 Bucket 的访问权限
+     */
+    async putBucketAcl(bucketName: string, acl: Acl, options?: CommonOptions): Promise<void> {
+        if (isBlank(bucketName) || isBlank(acl)) {
+            throw new ClientError("bucketName and acl are required, can not be empty");
+        }
+
+        const requestConfig: RequestConfig = {
+            method: "PUT",
+            bucketName,
+            headers: {
+                "x-oss-acl": acl,
+            },
+            query: {
+                acl: null,
+            },
+            timeoutMs: options?.timeoutMs,
+            signal: options?.signal,
+        };
+
+        await super.doRequest(requestConfig);
+    }
+
+    #buildLifecycleTimeXml(time: LifecycleTime): string[] {
+        const lines: string[] = [];
+        if (time.days !== undefined) {
+            lines.push(`<Days>${time.days}</Days>`);
+        }
+
+        if (time.createdBeforeDate) {
+            lines.push(`<CreatedBeforeDate>${time.createdBeforeDate.toISOString()}</CreatedBeforeDate>`);
+        }
+
+        return lines;
+    }
+
+    #buildAccessTimeXml(item: { isAccessTime?: boolean; returnToStdWhenVisit?: boolean }): string[] {
+        const lines: string[] = [];
+        if (item.isAccessTime !== undefined) {
+            lines.push(`<IsAccessTime>${item.isAccessTime}</IsAccessTime>`);
+        }
+
+        if (item.returnToStdWhenVisit !== undefined) {
+            lines.push(`<ReturnToStdWhenVisit>${item.returnToStdWhenVisit}</ReturnToStdWhenVisit>`);
+        }
+
+        return lines;
+    }
+
+    /**
+     * 设置 Bucket 的生命周期规则，会覆盖已有的全部规则
+     */
+    async putBucketLifecycle(bucketName: string, rules: LifecycleRule[], options?: CommonOptions): Promise<void> {
+        if (isBlank(bucketName) || rules.length === 0) {
+            throw new ClientError("bucketName and rules are required");
+        }
+
+        const lines = [
+            "<?xml version=\"1.0\" encoding=\"UTF-8\"?>",
+            "<LifecycleConfiguration>"
+        ];
+
+        rules.forEach(rule => {
+            lines.push("<Rule>");
+
+            if (rule.id) {
+                lines.push(`<ID>${escapeXmlSpecialChars(rule.id)}</ID>`);
+            }
+
+            lines.push(`<Prefix>${escapeXmlSpecialChars(rule.prefix ?? "")}</Prefix>`);
+            lines.push(`<Status>${rule.status}</Status>`);
+
+            if (rule.expiration) {
+                lines.push("<Expiration>");
+                lines.push(...this.#buildLifecycleTimeXml(rule.expiration));
+                if (rule.expiration.expiredObjectDeleteMarker !== undefined) {
+                    lines.push(`<ExpiredObjectDeleteMarker>${rule.expiration.expiredObjectDeleteMarker}</ExpiredObjectDeleteMarker>`);
+                }
+                lines.push("</Expiration>");
+            }
+
+            rule.transitions?.forEach(transition => {
+                lines.push("<Transition>");
+                lines.push(...this.#buildLifecycleTimeXml(transition));
+                lines.push(`<StorageClass>${transition.storageClass}</StorageClass>`);
+                lines.push(...this.#buildAccessTimeXml(transition));
+                lines.push("</Transition>");
+            });
+
+            if (rule.abortMultipartUpload) {
+                lines.push("<AbortMultipartUpload>");
+                lines.push(...this.#buildLifecycleTimeXml(rule.abortMultipartUpload));
+                lines.push("</AbortMultipartUpload>");
+            }
+
+            if (rule.tags) {
+                Object.entries(rule.tags).forEach(([k, v]) => {
+                    lines.push("<Tag>");
+                    lines.push(`<Key>${escapeXmlSpecialChars(k)}</Key>`);
+                    lines.push(`<Value>${escapeXmlSpecialChars(v)}</Value>`);
+                    lines.push("</Tag>");
+                });
+            }
+
+            if (rule.noncurrentVersionExpiration) {
+                lines.push("<NoncurrentVersionExpiration>");
+                lines.push(`<NoncurrentDays>${rule.noncurrentVersionExpiration.noncurrentDays}</NoncurrentDays>`);
+                lines.push("</NoncurrentVersionExpiration>");
+            }
+
+            rule.noncurrentVersionTransitions?.forEach(transition => {
+                lines.push("<NoncurrentVersionTransition>");
+                lines.push(`<NoncurrentDays>${transition.noncurrentDays}</NoncurrentDays>`);
+                lines.push(`<StorageClass>${transition.storageClass}</StorageClass>`);
+                lines.push(...this.#buildAccessTimeXml(transition));
+                lines.push("</NoncurrentVersionTransition>");
+            });
+
+            lines.push("</Rule>");
+        });
+
+        lines.push("</LifecycleConfiguration>");
+
+        const requestConfig: RequestConfig = {
+            method: "PUT",
+            bucketName,
+            query: {
+                lifecycle: null,
+            },
+            timeoutMs: options?.timeoutMs,
+            signal: options?.signal,
+        };
+
+        await super.doXmlRequest(requestConfig, lines.join("\n"));
+    }
+
+    #parseLifecycleTime(node: { Days?: number; CreatedBeforeDate?: string }): LifecycleTime {
+        const time: LifecycleTime = {};
+        if (node.Days !== undefined) {
+            time.days = node.Days;
+        }
+
+        if (node.CreatedBeforeDate) {
+            time.createdBeforeDate = new Date(node.CreatedBeforeDate);
+        }
+
+        return time;
+    }
+
+    /**
+     * 获取 Bucket 的生命周期规则
+     */
+    async getBucketLifecycle(bucketName: string, options?: CommonOptions): Promise<LifecycleRule[]> {
+        if (isBlank(bucketName)) {
+            throw new ClientError("bucketName is required, can not be empty");
+        }
+
+        const requestConfig: RequestConfig = {
+            method: "GET",
+            bucketName,
+            query: {
+                lifecycle: null,
+            },
+            timeoutMs: options?.timeoutMs,
+            signal: options?.signal,
+        };
+
+        const { content } = await super.doRequest(requestConfig);
+        //@ts-ignore xml parser
+        const ruleNode = parseXml(content!).LifecycleConfiguration?.Rule;
+
+        return toArray(ruleNode).map(n => {
+            const rule: LifecycleRule = {
+                id: optionalString(n.ID),
+                prefix: optionalString(n.Prefix),
+                status: n.Status,
+            };
+
+            if (n.Tag) {
+                rule.tags = {};
+                toArray(n.Tag).forEach(t => rule.tags![`${t.Key}`] = optionalString(t.Value) ?? "");
+            }
+
+            if (n.Expiration) {
+                rule.expiration = this.#parseLifecycleTime(n.Expiration);
+                if (n.Expiration.ExpiredObjectDeleteMarker !== undefined) {
+                    rule.expiration.expiredObjectDeleteMarker = n.Expiration.ExpiredObjectDeleteMarker;
+                }
+            }
+
+            if (n.Transition) {
+                rule.transitions = toArray(n.Transition).map(t => Object.assign(this.#parseLifecycleTime(t), {
+                    storageClass: t.StorageClass,
+                    isAccessTime: t.IsAccessTime,
+                    returnToStdWhenVisit: t.ReturnToStdWhenVisit,
+                }));
+            }
+
+            if (n.AbortMultipartUpload) {
+                rule.abortMultipartUpload = this.#parseLifecycleTime(n.AbortMultipartUpload);
+            }
+
+            if (n.NoncurrentVersionExpiration) {
+                rule.noncurrentVersionExpiration = {
+                    noncurrentDays: n.NoncurrentVersionExpiration.NoncurrentDays,
+                };
+            }
+
+            if (n.NoncurrentVersionTransition) {
+                rule.noncurrentVersionTransitions = toArray(n.NoncurrentVersionTransition).map(t => ({
+                    noncurrentDays: t.NoncurrentDays,
+                    storageClass: t.StorageClass,
+                    isAccessTime: t.IsAccessTime,
+                    returnToStdWhenVisit: t.ReturnToStdWhenVisit,
+                }));
+            }
+
+            return rule;
+        });
+    }
+
+    /**
+     * 删除 Bucket 的全部生命周期规则
+     */
+    async deleteBucketLifecycle(bucketName: string, options?: CommonOptions): Promise<void> {
+        if (isBlank(bucketName)) {
+            throw new ClientError("bucketName is required, can not be empty");
+        }
+
+        const requestConfig: RequestConfig = {
+            method: "DELETE",
+            bucketName,
+            query: {
+                lifecycle: null,
+            },
+            timeoutMs: options?.timeoutMs,
+            signal: options?.signal,
+        };
+
+        await super.doRequest(requestConfig);
+    }
+
+    /**
+     * 设置 Bucket 的跨域资源共享规则，会覆盖已有的全部规则
+     */
+    async putBucketCors(bucketName: string, config: CorsConfiguration, options?: CommonOptions): Promise<void> {
+        if (isBlank(bucketName) || config.rules.length === 0) {
+            throw new ClientError("bucketName and cors rules are required");
+        }
+
+        const lines = [
+            "<?xml version=\"1.0\" encoding=\"UTF-8\"?>",
+            "<CORSConfiguration>"
+        ];
+
+        config.rules.forEach(rule => {
+            lines.push("<CORSRule>");
+            rule.allowedOrigins.forEach(v => lines.push(`<AllowedOrigin>${escapeXmlSpecialChars(v)}</AllowedOrigin>`));
+            rule.allowedMethods.forEach(v => lines.push(`<AllowedMethod>${v}</AllowedMethod>`));
+            rule.allowedHeaders?.forEach(v => lines.push(`<AllowedHeader>${escapeXmlSpecialChars(v)}</AllowedHeader>`));
+            rule.exposeHeaders?.forEach(v => lines.push(`<ExposeHeader>${escapeXmlSpecialChars(v)}</ExposeHeader>`));
+
+            if (rule.maxAgeSeconds !== undefined) {
+                lines.push(`<MaxAgeSeconds>${rule.maxAgeSeconds}</MaxAgeSeconds>`);
+            }
+
+            lines.push("</CORSRule>");
+        });
+
+        if (config.responseVary !== undefined) {
+            lines.push(`<ResponseVary>${config.responseVary}</ResponseVary>`);
+        }
+
+        lines.push("</CORSConfiguration>");
+
+        const requestConfig: RequestConfig = {
+            method: "PUT",
+            bucketName,
+            query: {
+                cors: null,
+            },
+            timeoutMs: options?.timeoutMs,
+            signal: options?.signal,
+        };
+
+        await super.doXmlRequest(requestConfig, lines.join("\n"));
+    }
+
+    /**
+     * 获取 Bucket 的跨域资源共享规则
+     */
+    async getBucketCors(bucketName: string, options?: CommonOptions): Promise<CorsConfiguration> {
+        if (isBlank(bucketName)) {
+            throw new ClientError("bucketName is required, can not be empty");
+        }
+
+        const requestConfig: RequestConfig = {
+            method: "GET",
+            bucketName,
+            query: {
+                cors: null,
+            },
+            timeoutMs: options?.timeoutMs,
+            signal: options?.signal,
+        };
+
+        const { content } = await super.doRequest(requestConfig);
+        const {
+            //@ts-ignore xml parser
+            CORSRule: ruleNode,
+
+            //@ts-ignore xml parser
+            ResponseVary: responseVary
+        } = parseXml(content!).CORSConfiguration;
+
+        return {
+            rules: toArray(ruleNode).map(n => {
+                const rule: CorsRule = {
+                    allowedOrigins: toArray(n.AllowedOrigin).map(v => `${v}`),
+                    allowedMethods: toArray<CorsRule["allowedMethods"][number]>(n.AllowedMethod),
+                };
+
+                const allowedHeaders = toArray(n.AllowedHeader).map(v => `${v}`);
+                if (allowedHeaders.length > 0) {
+                    rule.allowedHeaders = allowedHeaders;
+                }
+
+                const exposeHeaders = toArray(n.ExposeHeader).map(v => `${v}`);
+                if (exposeHeaders.length > 0) {
+                    rule.exposeHeaders = exposeHeaders;
+                }
+
+                if (n.MaxAgeSeconds !== undefined) {
+                    rule.maxAgeSeconds = n.MaxAgeSeconds;
+                }
+
+                return rule;
+            }),
+            responseVary: responseVary === true,
+        };
+    }
+
+    /**
+     * 删除 Bucket 的全部跨域资源共享规则
+     */
+    async deleteBucketCors(bucketName: string, options?: CommonOptions): Promise<void> {
+        if (isBlank(bucketName)) {
+            throw new ClientError("bucketName is required, can not be empty");
+        }
+
+        const requestConfig: RequestConfig = {
+            method: "DELETE",
+            bucketName,
+            query: {
+                cors: null,
+            },
+            timeoutMs: options?.timeoutMs,
+            signal: options?.signal,
+        };
+
+        await super.doRequest(requestConfig);
+    }
+
+    /**
+     * 设置 Bucket 的版本控制状态
+     */
+    async putBucketVersioning(bucketName: string, status: BucketVersioningStatus, options?: CommonOptions): Promise<void> {
+        if (isBlank(bucketName)) {
+            throw new ClientError("bucketName is required, can not be empty");
+        }
+
+        const lines = [
+            "<?xml version=\"1.0\" encoding=\"UTF-8\"?>",
+            "<VersioningConfiguration>",
+            `<Status>${status}</Status>`,
+            "</VersioningConfiguration>"
+        ];
+
+        const requestConfig: RequestConfig = {
+            method: "PUT",
+            bucketName,
+            query: {
+                versioning: null,
+            },
+            timeoutMs: options?.timeoutMs,
+            signal: options?.signal,
+        };
+
+        await super.doXmlRequest(requestConfig, lines.join("\n"));
+    }
+
+    /**
+     * 获取 Bucket 的版本控制状态。从未开启过版本控制的 Bucket 返回 `undefined`
+     */
+    async getBucketVersioning(bucketName: string, options?: CommonOptions): Promise<BucketVersioningStatus | undefined> {
+        if (isBlank(bucketName)) {
+            throw new ClientError("bucketName is required, can not be empty");
+        }
+
+        const requestConfig: RequestConfig = {
+            method: "GET",
+            bucketName,
+            query: {
+                versioning: null,
+            },
+            timeoutMs: options?.timeoutMs,
+            signal: options?.signal,
+        };
 
-export class BucketOperation extends Operation {
-    constructor(clientConfig: ClientConfig) {
-        super(clientConfig);
+        const { content } = await super.doRequest(requestConfig);
+        //@ts-ignore xml parser
+        const status = parseXml(content!).VersioningConfiguration?.Status;
+
+        return status ? status : undefined;
     }
 
     /**
-     * List buckets which satisfied query.
-     * See [Official Documents](https://help.aliyun.com/zh/oss/developer-reference/listbuckets?spm=a2c4g.11186623.0.0.1b0ab930SHOdG9) for more details.
+     * 列出 Bucket 中 Object 的全部版本，包括删除标记
      */
-    async #listBuckets(options?: ListBucketsOptions): Promise<ListBucketsResult> {
-        const { prefix, marker, maxKeys, resourceGroupId } = Object.assign({}, options);
+    async listObjectVersions(bucketName: string, query?: ListObjectVersionsQuery): Promise<ListObjectVersionsResult> {
+        if (isBlank(bucketName)) {
+            throw new ClientError("bucketName is required, can not be empty");
+        }
 
-        const requestQuery: Record<string, string> = {};
-        if (prefix) {
-            requestQuery.prefix = prefix;
+        const params: Record<string, string | number | null> = {
+            versions: null,
+        };
+
+        const { timeoutMs, signal, ...listQuery } = Object.assign({}, query);
+        Object.entries(listQuery).forEach(([k, v]) => params[camelToKebab(k)] = v);
+
+        const requestConfig: RequestConfig = {
+            method: "GET",
+            bucketName,
+            query: params,
+            timeoutMs,
+            signal,
+        };
+
+        const { content } = await super.doRequest(requestConfig);
+        //@ts-ignore xml parser
+        const resultNode = parseXml(content!).ListVersionsResult;
+
+        const commonPrefixes: string[] = [];
+
+        //@ts-ignore xml parser
+        if (resultNode.CommonPrefixes) {
+            //@ts-ignore xml parser
+            const commonPrefixeNodes = Array.isArray(resultNode.CommonPrefixes) ? resultNode.CommonPrefixes : [resultNode.CommonPrefixes];
+
+            //@ts-ignore xml parser
+            commonPrefixeNodes.forEach(n => commonPrefixes.push(`${n.Prefix}`));
         }
 
-        if (marker) {
-            requestQuery.marker = marker;
+        const parseOwner = (n?: { ID: string; DisplayName: string }): Owner | undefined => n ? { id: `${n.ID}`, displayName: `${n.DisplayName}` } : undefined;
+
+        const versions: ObjectVersion[] = [];
+
+        //@ts-ignore xml parser
+        if (resultNode.Version) {
+            //@ts-ignore xml parser
+            const versionNodes = Array.isArray(resultNode.Version) ? resultNode.Version : [resultNode.Version];
+            //@ts-ignore xml parser
+            versionNodes.forEach(n => {
+                versions.push({
+                    key: `${n.Key}`,
+                    versionId: `${n.VersionId}`,
+                    isLatest: n.IsLatest,
+                    lastModified: new Date(n.LastModified),
+                    eTag: n.ETag,
+                    type: n.Type,
+                    size: n.Size,
+                    storageClass: n.StorageClass,
+                    owner: parseOwner(n.Owner),
+                });
+            });
         }
 
-        if (maxKeys) {
-            requestQuery["max-keys"] = `${maxKeys}`;
+        const deleteMarkers: DeleteMarker[] = [];
+
+        //@ts-ignore xml parser
+        if (resultNode.DeleteMarker) {
+            //@ts-ignore xml parser
+            const markerNodes = Array.isArray(resultNode.DeleteMarker) ? resultNode.DeleteMarker : [resultNode.DeleteMarker];
+            //@ts-ignore xml parser
+            markerNodes.forEach(n => {
+                deleteMarkers.push({
+                    key: `${n.Key}`,
+                    versionId: `${n.VersionId}`,
+                    isLatest: n.IsLatest,
+                    lastModified: new Date(n.LastModified),
+                    owner: parseOwner(n.Owner),
+                });
+            });
         }
 
-        const requestHeaders: Record<string, string> = {};
-        if (resourceGroupId) {
-            requestHeaders["x-oss-resource-group-id"] = resourceGroupId;
+        const {
+            //@ts-ignore xml parser
+            Name: name,
+
+            //@ts-ignore xml parser
+            Prefix: prefix,
+
+            //@ts-ignore xml parser
+            KeyMarker: keyMarker,
+
+            //@ts-ignore xml parser
+            VersionIdMarker: versionIdMarker,
+
+            //@ts-ignore xml parser
+            NextKeyMarker: nextKeyMarker,
+
+            //@ts-ignore xml parser
+            NextVersionIdMarker: nextVersionIdMarker,
+
+            //@ts-ignore xml parser
+            Delimiter: delimiter,
+
+            //@ts-ignore xml parser
+            MaxKeys: maxKeys,
+
+            //@ts-ignore xml parser
+            IsTruncated: isTruncated
+        } = resultNode;
+
+        return {
+            name: `${name}`,
+            prefix: optionalString(prefix),
+            keyMarker: optionalString(keyMarker),
+            versionIdMarker: optionalString(versionIdMarker),
+            nextKeyMarker: optionalString(nextKeyMarker),
+            nextVersionIdMarker: optionalString(nextVersionIdMarker),
+            delimiter: optionalString(delimiter),
+            maxKeys,
+            isTruncated,
+            commonPrefixes,
+            versions,
+            deleteMarkers,
+        };
+    }
+
+    /**
+     * 设置 Bucket Policy，会覆盖已有的策略
+     */
+    async putBucketPolicy(bucketName: string, policy: BucketPolicy, options?: CommonOptions): Promise<void> {
+        if (isBlank(bucketName) || policy.statement.length === 0) {
+            throw new ClientError("bucketName and policy statements are required");
+        }
+
+        const document = {
+            Version: policy.version ?? "1",
+            Statement: policy.statement.map(statement => {
+                const node: Record<string, unknown> = {
+                    Effect: statement.effect,
+                    Action: statement.action,
+                    Resource: statement.resource,
+                };
+
+                if (statement.principal) {
+                    node.Principal = statement.principal;
+                }
+
+                if (statement.condition) {
+                    node.Condition = statement.condition;
+                }
+
+                return node;
+            }),
+        };
+
+        const requestConfig: RequestConfig = {
+            method: "PUT",
+            bucketName,
+            query: {
+                policy: null,
+            },
+            timeoutMs: options?.timeoutMs,
+            signal: options?.signal,
+        };
+
+        await super.doJsonRequest(requestConfig, JSON.stringify(document));
+    }
+
+    /**
+     * 获取 Bucket Policy。Bucket 没有设置策略时抛出 ClientError, code = `NoSuchBucketPolicy`
+     */
+    async getBucketPolicy(bucketName: string, options?: CommonOptions): Promise<BucketPolicy> {
+        if (isBlank(bucketName)) {
+            throw new ClientError("bucketName is required, can not be empty");
         }
 
         const requestConfig: RequestConfig = {
             method: "GET",
-            query: requestQuery,
-            headers: requestHeaders,
+            bucketName,
+            query: {
+                policy: null,
+            },
+            timeoutMs: options?.timeoutMs,
+            signal: options?.signal,
         };
 
         const { content } = await super.doRequest(requestConfig);
-        return this.#parseListBucketsResponseContent(content!);
+
+        type StatementNode = {
+            Effect: BucketPolicyStatement["effect"];
+            Action: string | string[];
+            Principal?: string | string[];
+            Resource: string | string[];
+            Condition?: BucketPolicyStatement["condition"];
+        };
+
+        let document: { Version?: string; Statement?: StatementNode | StatementNode[] };
+        try {
+            document = JSON.parse(content!);
+        } catch (_e) {
+            throw new ClientError("invalid bucket policy document", undefined, bucketName);
+        }
+
+        return {
+            version: optionalString(document?.Version),
+            statement: toArray(document?.Statement).map(n => {
+                const statement: BucketPolicyStatement = {
+                    effect: n.Effect,
+                    action: toArray(n.Action),
+                    resource: toArray(n.Resource),
+                };
+
+                if (n.Principal !== undefined) {
+                    statement.principal = toArray(n.Principal);
+                }
+
+                if (n.Condition !== undefined) {
+                    statement.condition = n.Condition;
+                }
+
+                return statement;
+            }),
+        };
     }
 
     /**
-     * List buckets with query parameters
-     * @return {Promise<Bucket[]>}       
+     * 删除 Bucket Policy
      */
-    async listBuckets(options?: ListBucketsOptions): Promise<Bucket[]> {
-        const result = await this.#listBuckets(options);
-        return result.buckets;
+    async deleteBucketPolicy(bucketName: string, options?: CommonOptions): Promise<void> {
+        if (isBlank(bucketName)) {
+            throw new ClientError("bucketName is required, can not be empty");
+        }
+
+        const requestConfig: RequestConfig = {
+            method: "DELETE",
+            bucketName,
+            query: {
+                policy: null,
+            },
+            timeoutMs: options?.timeoutMs,
+            signal: options?.signal,
+        };
+
+        await super.doRequest(requestConfig);
     }
 
     /**
-     * list all buckets
-     * @return {Promise<Bucket[]>}          
+     * 设置 Bucket 的防盗链配置。
+     * 设置 `allowEmptyReferer` 为 `true` 并且 `refererList` 为空数组即可清除防盗链配置
      */
-    async listAllBuckets(): Promise<Bucket[]> {
-        const allBuckets: Bucket[] = [];
-        let marker: string | null = null;
+    async putBucketReferer(bucketName: string, config: RefererConfiguration, options?: CommonOptions): Promise<void> {
+        if (isBlank(bucketName)) {
+            throw new ClientError("bucketName is required, can not be empty");
+        }
 
-        while (true) {
-            const q: ListBucketsOptions = {};
+        const lines = [
+            "<?xml version=\"1.0\" encoding=\"UTF-8\"?>",
+            "<RefererConfiguration>",
+            `<AllowEmptyReferer>${config.allowEmptyReferer}</AllowEmptyReferer>`
+        ];
 
-            if (marker) {
-                q.marker = marker;
-            }
+        if (config.allowTruncateQueryString !== undefined) {
+            lines.push(`<AllowTruncateQueryString>${config.allowTruncateQueryString}</AllowTruncateQueryString>`);
+        }
 
-            const result = await this.#listBuckets(q);
-            result.buckets.forEach(b => allBuckets.push(b));
+        if (config.truncatePath !== undefined) {
+            lines.push(`<TruncatePath>${config.truncatePath}</TruncatePath>`);
+        }
 
-            if (result.isTruncated && result.nextMarker) {
-                marker = result.nextMarker;
-            } else {
-                break;
+        lines.push("<RefererList>");
+        config.refererList.forEach(v => lines.push(`<Referer>${escapeXmlSpecialChars(v)}</Referer>`));
+        lines.push("</RefererList>");
+
+        if (config.refererBlacklist) {
+            lines.push("<RefererBlacklist>");
+            config.refererBlacklist.forEach(v => lines.push(`<Referer>${escapeXmlSpecialChars(v)}</Referer>`));
+            lines.push("</RefererBlacklist>");
+        }
+
+        lines.push("</RefererConfiguration>");
+
+        const requestConfig: RequestConfig = {
+            method: "PUT",
+            bucketName,
+            query: {
+                referer: null,
+            },
+            timeoutMs: options?.timeoutMs,
+            signal: options?.signal,
+        };
+
+        await super.doXmlRequest(requestConfig, lines.join("\n"));
+    }
+
+    /**
+     * 获取 Bucket 的防盗链配置
+     */
+    async getBucketReferer(bucketName: string, options?: CommonOptions): Promise<RefererConfiguration> {
+        if (isBlank(bucketName)) {
+            throw new ClientError("bucketName is required, can not be empty");
+        }
+
+        const requestConfig: RequestConfig = {
+            method: "GET",
+            bucketName,
+            query: {
+                referer: null,
+            },
+            timeoutMs: options?.timeoutMs,
+            signal: options?.signal,
+        };
+
+        const { content } = await super.doRequest(requestConfig);
+        const {
+            //@ts-ignore xml parser
+            AllowEmptyReferer: allowEmptyReferer,
+
+            //@ts-ignore xml parser
+            AllowTruncateQueryString: allowTruncateQueryString,
+
+            //@ts-ignore xml parser
+            TruncatePath: truncatePath,
+
+            //@ts-ignore xml parser
+            RefererList: refererList,
+
+            //@ts-ignore xml parser
+            RefererBlacklist: refererBlacklist
+        } = parseXml(content!).RefererConfiguration;
+
+        // 空的 RefererList 会被 xml parser 解析成 null
+        const parseRefererList = (n: { Referer?: unknown } | null): string[] => toArray(n?.Referer).map(v => `${v}`);
+
+        const config: RefererConfiguration = {
+            allowEmptyReferer,
+            refererList: parseRefererList(refererList),
+        };
+
+        if (allowTruncateQueryString !== undefined) {
+            config.allowTruncateQueryString = allowTruncateQueryString;
+        }
+
+        if (truncatePath !== undefined) {
+            config.truncatePath = truncatePath;
+        }
+
+        if (refererBlacklist !== undefined) {
+            config.refererBlacklist = parseRefererList(refererBlacklist);
+        }
+
+        return config;
+    }
+
+    /**
+     * 设置 Bucket 的静态网站托管配置
+     */
+    async putBucketWebsite(bucketName: string, config: WebsiteConfiguration, options?: CommonOptions): Promise<void> {
+        if (isBlank(bucketName)) {
+            throw new ClientError("bucketName is required, can not be empty");
+        }
+
+        if (!config.indexDocument && !config.errorDocument && !config.routingRules?.length) {
+            throw new ClientError("at least one of indexDocument, errorDocument and routingRules is required");
+        }
+
+        const lines = [
+            "<?xml version=\"1.0\" encoding=\"UTF-8\"?>",
+            "<WebsiteConfiguration>"
+        ];
+
+        const pushElement = (name: string, value?: string | number | boolean) => {
+            if (value !== undefined) {
+                lines.push(`<${name}>${typeof value === "string" ? escapeXmlSpecialChars(value) : value}</${name}>`);
             }
+        };
+
+        if (config.indexDocument) {
+            lines.push("<IndexDocument>");
+            pushElement("Suffix", config.indexDocument.suffix);
+            pushElement("SupportSubDir", config.indexDocument.supportSubDir);
+            pushElement("Type", config.indexDocument.type);
+            lines.push("</IndexDocument>");
+        }
+
+        if (config.errorDocument) {
+            lines.push("<ErrorDocument>");
+            pushElement("Key", config.errorDocument.key);
+            pushElement("HttpStatus", config.errorDocument.httpStatus);
+            lines.push("</ErrorDocument>");
+        }
+
+        if (config.routingRules?.length) {
+            lines.push("<RoutingRules>");
+
+            config.routingRules.forEach(rule => {
+                const { condition, redirect } = rule;
+
+                lines.push("<RoutingRule>");
+                pushElement("RuleNumber", rule.ruleNumber);
+
+                lines.push("<Condition>");
+                pushElement("KeyPrefixEquals", condition.keyPrefixEquals);
+                pushElement("KeySuffixEquals", condition.keySuffixEquals);
+                pushElement("HttpErrorCodeReturnedEquals", condition.httpErrorCodeReturnedEquals);
+                condition.includeHeaders?.forEach(header => {
+                    lines.push("<IncludeHeader>");
+                    pushElement("Key", header.key);
+                    pushElement("Equals", header.equals);
+                    lines.push("</IncludeHeader>");
+                });
+                lines.push("</Condition>");
+
+                lines.push("<Redirect>");
+                pushElement("RedirectType", redirect.redirectType);
+                pushElement("PassQueryString", redirect.passQueryString);
+                pushElement("MirrorURL", redirect.mirrorURL);
+                pushElement("MirrorPassQueryString", redirect.mirrorPassQueryString);
+                pushElement("MirrorFollowRedirect", redirect.mirrorFollowRedirect);
+                pushElement("MirrorCheckMd5", redirect.mirrorCheckMd5);
+
+                if (redirect.mirrorHeaders) {
+                    const mirrorHeaders = redirect.mirrorHeaders;
+                    lines.push("<MirrorHeaders>");
+                    pushElement("PassAll", mirrorHeaders.passAll);
+                    mirrorHeaders.pass?.forEach(v => pushElement("Pass", v));
+                    mirrorHeaders.remove?.forEach(v => pushElement("Remove", v));
+                    Object.entries(mirrorHeaders.set ?? {}).forEach(([k, v]) => {
+                        lines.push("<Set>");
+                        pushElement("Key", k);
+                        pushElement("Value", v);
+                        lines.push("</Set>");
+                    });
+                    lines.push("</MirrorHeaders>");
+                }
+
+                pushElement("Protocol", redirect.protocol);
+                pushElement("HostName", redirect.hostName);
+                pushElement("HttpRedirectCode", redirect.httpRedirectCode);
+                pushElement("ReplaceKeyPrefixWith", redirect.replaceKeyPrefixWith);
+                pushElement("EnableReplacePrefix", redirect.enableReplacePrefix);
+                pushElement("ReplaceKeyWith", redirect.replaceKeyWith);
+                lines.push("</Redirect>");
+
+                lines.push("</RoutingRule>");
+            });
+
+            lines.push("</RoutingRules>");
+        }
+
+        lines.push("</WebsiteConfiguration>");
+
+        const requestConfig: RequestConfig = {
+            method: "PUT",
+            bucketName,
+            query: {
+                website: null,
+            },
+            timeoutMs: options?.timeoutMs,
+            signal: options?.signal,
+        };
+
+        await super.doXmlRequest(requestConfig, lines.join("\n"));
+    }
+
+    /**
+     * 获取 Bucket 的静态网站托管配置。Bucket 没有设置时抛出 ClientError, code = `NoSuchWebsiteConfiguration`
+     */
+    async getBucketWebsite(bucketName: string, options?: CommonOptions): Promise<WebsiteConfiguration> {
+        if (isBlank(bucketName)) {
+            throw new ClientError("bucketName is required, can not be empty");
+        }
+
+        const requestConfig: RequestConfig = {
+            method: "GET",
+            bucketName,
+            query: {
+                website: null,
+            },
+            timeoutMs: options?.timeoutMs,
+            signal: options?.signal,
+        };
+
+        const { content } = await super.doRequest(requestConfig);
+        const {
+            //@ts-ignore xml parser
+            IndexDocument: indexNode,
+
+            //@ts-ignore xml parser
+            ErrorDocument: errorNode,
+
+            //@ts-ignore xml parser
+            RoutingRules: routingRulesNode
+        } = parseXml(content!).WebsiteConfiguration;
+
+        const config: WebsiteConfiguration = {};
+
+        if (indexNode) {
+            config.indexDocument = {
+                suffix: `${indexNode.Suffix}`,
+                supportSubDir: indexNode.SupportSubDir,
+                type: indexNode.Type,
+            };
+        }
+
+        if (errorNode) {
+            config.errorDocument = {
+                key: `${errorNode.Key}`,
+                httpStatus: errorNode.HttpStatus,
+            };
+        }
+
+        const ruleNodes = toArray(routingRulesNode?.RoutingRule);
+        if (ruleNodes.length > 0) {
+            config.routingRules = ruleNodes.map(n => {
+                const conditionNode = n.Condition ?? {};
+                const redirectNode = n.Redirect ?? {};
+
+                const condition: RoutingRuleCondition = {
+                    keyPrefixEquals: optionalString(conditionNode.KeyPrefixEquals),
+                    keySuffixEquals: optionalString(conditionNode.KeySuffixEquals),
+                    httpErrorCodeReturnedEquals: conditionNode.HttpErrorCodeReturnedEquals,
+                };
+
+                const headerNodes = toArray(conditionNode.IncludeHeader);
+                if (headerNodes.length > 0) {
+                    condition.includeHeaders = headerNodes.map(h => ({ key: `${h.Key}`, equals: `${h.Equals}` }));
+                }
+
+                const redirect: RoutingRuleRedirect = {
+                    redirectType: redirectNode.RedirectType,
+                    passQueryString: redirectNode.PassQueryString,
+                    mirrorURL: optionalString(redirectNode.MirrorURL),
+                    mirrorPassQueryString: redirectNode.MirrorPassQueryString,
+                    mirrorFollowRedirect: redirectNode.MirrorFollowRedirect,
+                    mirrorCheckMd5: redirectNode.MirrorCheckMd5,
+                    protocol: redirectNode.Protocol,
+                    hostName: optionalString(redirectNode.HostName),
+                    httpRedirectCode: redirectNode.HttpRedirectCode,
+                    replaceKeyPrefixWith: optionalString(redirectNode.ReplaceKeyPrefixWith),
+                    enableReplacePrefix: redirectNode.EnableReplacePrefix,
+                    replaceKeyWith: optionalString(redirectNode.ReplaceKeyWith),
+                };
+
+                const mirrorHeadersNode = redirectNode.MirrorHeaders;
+                if (mirrorHeadersNode) {
+                    const set: Record<string, string> = {};
+                    toArray(mirrorHeadersNode.Set).forEach(h => set[`${h.Key}`] = `${h.Value ?? ""}`);
+
+                    redirect.mirrorHeaders = {
+                        passAll: mirrorHeadersNode.PassAll,
+                        pass: toArray(mirrorHeadersNode.Pass).map(v => `${v}`),
+                        remove: toArray(mirrorHeadersNode.Remove).map(v => `${v}`),
+                        set,
+                    };
+                }
+
+                return {
+                    ruleNumber: n.RuleNumber,
+                    condition,
+                    redirect,
+                };
+            });
         }
 
-        return allBuckets;
+        return config;
     }
 
-    #parseListBucketsResponseContent(responseContent: string): ListBucketsResult {
-        const doc = parseXml(responseContent);
+    /**
+     * 关闭 Bucket 的静态网站托管
+     */
+    async deleteBucketWebsite(bucketName: string, options?: CommonOptions): Promise<void> {
+        if (isBlank(bucketName)) {
+            throw new ClientError("bucketName is required, can not be empty");
+        }
 
-        //@ts-ignore xml parser
-        const resultDoc = doc.ListAllMyBucketsResult;
+        const requestConfig: RequestConfig = {
+            method: "DELETE",
+            bucketName,
+            query: {
+                website: null,
+            },
+            timeoutMs: options?.timeoutMs,
+            signal: options?.signal,
+        };
 
-        const { 
-            //@ts-ignore xml parser
-            Prefix: prefix, 
+        await super.doRequest(requestConfig);
+    }
 
-            //@ts-ignore xml parser
-            Marker: marker, 
+    /**
+     * 开启 Bucket 的访问日志，日志文件保存在 `config.targetBucket` 中
+     */
+    async putBucketLogging(bucketName: string, config: BucketLoggingConfiguration, options?: CommonOptions): Promise<void> {
+        if (isBlank(bucketName) || isBlank(config.targetBucket)) {
+            throw new ClientError("bucketName and targetBucket are required, can not be empty");
+        }
 
-            //@ts-ignore xml parser
-            MaxKeys: maxKeys,  
+        const lines = [
+            "<?xml version=\"1.0\" encoding=\"UTF-8\"?>",
+            "<BucketLoggingStatus>",
+            "<LoggingEnabled>",
+            `<TargetBucket>${escapeXmlSpecialChars(config.targetBucket)}</TargetBucket>`
+        ];
 
-            //@ts-ignore xml parser
-            IsTruncated: isTruncated,
+        if (config.targetPrefix) {
+            lines.push(`<TargetPrefix>${escapeXmlSpecialChars(config.targetPrefix)}</TargetPrefix>`);
+        }
 
-            //@ts-ignore xml parser
-            NextMarker: nextMarker
-        } = resultDoc;
+        lines.push("</LoggingEnabled>");
+        lines.push("</BucketLoggingStatus>");
 
-        const result: ListBucketsResult = {
-            buckets: []
+        const requestConfig: RequestConfig = {
+            method: "PUT",
+            bucketName,
+            query: {
+                logging: null,
+            },
+            timeoutMs: options?.timeoutMs,
+            signal: options?.signal,
         };
 
-        if (prefix) {
-            result.prefix = prefix;
+        await super.doXmlRequest(requestConfig, lines.join("\n"));
+    }
+
+    /**
+     * 获取 Bucket 的访问日志配置。没有开启访问日志时返回 `undefined`
+     */
+    async getBucketLogging(bucketName: string, options?: CommonOptions): Promise<BucketLoggingConfiguration | undefined> {
+        if (isBlank(bucketName)) {
+            throw new ClientError("bucketName is required, can not be empty");
         }
 
-        if (marker) {
-            result.marker = marker;
+        const requestConfig: RequestConfig = {
+            method: "GET",
+            bucketName,
+            query: {
+                logging: null,
+            },
+            timeoutMs: options?.timeoutMs,
+            signal: options?.signal,
+        };
+
+        const { content } = await super.doRequest(requestConfig);
+        //@ts-ignore xml parser
+        const enabledNode = parseXml(content!).BucketLoggingStatus?.LoggingEnabled;
+        if (!enabledNode) {
+            return undefined;
         }
 
-        if (maxKeys) {
-            result.maxKeys = parseInt(maxKeys);
+        return {
+            targetBucket: `${enabledNode.TargetBucket}`,
+            targetPrefix: optionalString(enabledNode.TargetPrefix),
+        };
+    }
+
+    /**
+     * 关闭 Bucket 的访问日志
+     */
+    async deleteBucketLogging(bucketName: string, options?: CommonOptions): Promise<void> {
+        if (isBlank(bucketName)) {
+            throw new ClientError("bucketName is required, can not be empty");
         }
 
-        if (isTruncated !== undefined) {
-            result.isTruncated = isTruncated;
+        const requestConfig: RequestConfig = {
+            method: "DELETE",
+            bucketName,
+            query: {
+                logging: null,
+            },
+            timeoutMs: options?.timeoutMs,
+            signal: options?.signal,
+        };
+
+        await super.doRequest(requestConfig);
+    }
+
+    /**
+     * 设置 Bucket 默认的服务端加密方式，之后上传的 Object 如果没有指定加密方式就会使用此方式加密
+     */
+    async putBucketEncryption(bucketName: string, rule: BucketEncryptionRule, options?: CommonOptions): Promise<void> {
+        if (isBlank(bucketName)) {
+            throw new ClientError("bucketName is required, can not be empty");
         }
 
-        if (nextMarker) {
-            result.nextMarker = nextMarker;
+        if (rule.sseAlgorithm !== "KMS" && (rule.kmsMasterKeyId || rule.kmsDataEncryption)) {
+            throw new ClientError("kmsMasterKeyId and kmsDataEncryption are only valid when sseAlgorithm is KMS");
         }
 
-        // 如果返回只有一个 Bucket，xml parser 会解析成一个对象而不是一个数组
-        // 所以要进行特殊的处理
-        //@ts-ignore xml parser
-        const bucketsDoc = Array.isArray(resultDoc.Buckets.Bucket) ? resultDoc.Buckets.Bucket : [resultDoc.Buckets.Bucket];
-        if (bucketsDoc) {
-            //@ts-ignore xml parser
-            bucketsDoc.forEach(b => {
-                const {
-                    Comment: comment,
-                    CreationDate: creationDate,
-                    ExtranetEndpoint: extranetEndpoint,
-                    IntranetEndpoint: intranetEndpoint,
-                    Location: location,
-                    Name: name,
-                    Region: region,
-                    StorageClass: storageClass,
-                    ResourceGroupId: resourceGroupId,
-                } = b;
+        const lines = [
+            "<?xml version=\"1.0\" encoding=\"UTF-8\"?>",
+            "<ServerSideEncryptionRule>",
+            "<ApplyServerSideEncryptionByDefault>",
+            `<SSEAlgorithm>${rule.sseAlgorithm}</SSEAlgorithm>`
+        ];
 
-                const bucket: Bucket = {
-                    name, 
-                    comment,
-                    creationDate: new Date(creationDate),
-                    extranetEndpoint,
-                    intranetEndpoint,
-                    location,
-                    region,
-                    storageClass,
-                    resourceGroupId,
-                };
+        if (rule.kmsMasterKeyId) {
+            lines.push(`<KMSMasterKeyID>${escapeXmlSpecialChars(rule.kmsMasterKeyId)}</KMSMasterKeyID>`);
+        }
 
-                result.buckets.push(bucket);
-            });
+        if (rule.kmsDataEncryption) {
+            lines.push(`<KMSDataEncryption>${rule.kmsDataEncryption}</KMSDataEncryption>`);
         }
 
-        return result;
+        lines.push("</ApplyServerSideEncryptionByDefault>");
+        lines.push("</ServerSideEncryptionRule>");
+
+        const requestConfig: RequestConfig = {
+            method: "PUT",
+            bucketName,
+            query: {
+                encryption: null,
+            },
+            timeoutMs: options?.timeoutMs,
+            signal: options?.signal,
+        };
+
+        await super.doXmlRequest(requestConfig, lines.join("\n"));
     }
 
     /**
-     * Get bucket detail informaiton
-     * @param {string} bucketName [description]
+     * 获取 Bucket 默认的服务端加密方式。Bucket 没有设置时抛出 ClientError, code = `NoSuchServerSideEncryptionRule`
      */
-    async getBucketInfo(bucketName: string): Promise<BucketInfo> {
-        const query: Record<string, string | null> = {
-            bucketInfo: null
-        };
-        
+    async getBucketEncryption(bucketName: string, options?: CommonOptions): Promise<BucketEncryptionRule> {
+        if (isBlank(bucketName)) {
+            throw new ClientError("bucketName is required, can not be empty");
+        }
+
         const requestConfig: RequestConfig = {
             method: "GET",
-            bucketName: bucketName,
-            query: query,
+            bucketName,
+            query: {
+                encryption: null,
+            },
+            timeoutMs: options?.timeoutMs,
+            signal: options?.signal,
         };
 
-        const responseContent = await super.doRequest(requestConfig);
+        const { content } = await super.doRequest(requestConfig);
         //@ts-ignore xml parser
-        const bucketNode = parseXml(responseContent).BucketInfo.Bucket;
+        const defaultNode = parseXml(content!).ServerSideEncryptionRule.ApplyServerSideEncryptionByDefault;
 
-        //@ts-ignore xml parser
-        const {
-            Comment: comment,
-            CreationDate: creationDate,
-            ExtranetEndpoint: extranetEndpoint,
-            IntranetEndpoint: intranetEndpoint,
-            Location: location,
-            Name: name,
-            Region: region,
-            StorageClass: storageClass,
-            ResourceGroupId: resourceGroupId,
-            AccessMonitor: accessMonitor,
-            BlockPublicAccess: blockPublicAccess,
-            CrossRegionReplication: crossRegionReplication,
-            DataRedundancyType: dataRedundancyType,
-            KMSMasterKeyID: kmsMasterKeyId,
-            TransferAcceleration: transferAcceleration,
-            AccessControlList: accessControlList,
-            ServerSideEncryptionRule: serverSideEncryptionRule,
-            BucketPolicy: bucketPolicy,
-            Versioning: versioning,
-        } = bucketNode;
+        const rule: BucketEncryptionRule = {
+            sseAlgorithm: defaultNode.SSEAlgorithm,
+        };
 
-        const bucketInfo: BucketInfo = {
-            name, 
-            comment,
-            creationDate: new Date(creationDate),
-            extranetEndpoint,
-            intranetEndpoint,
-            location,
-            region,
-            storageClass,
-            resourceGroupId,
-            blockPublicAccess,
-            accessMonitor,
-            crossRegionReplication,
-            dataRedundancyType,
-            kmsMasterKeyId,
-            accessControlList: {
-                grant: accessControlList?.Grant
-            },
-            transferAcceleration,
-            serverSideEncryptionRule: {
-                sseAlgorithm: serverSideEncryptionRule?.SSEAlgorithm
-            },
-            bucketPolicy: {
-                logBucket: bucketPolicy?.LogBucket,
-                logPrefix: bucketPolicy?.LogPrefix
+        // 没有设置时 xml parser 会把空的节点解析成 null
+        if (defaultNode.KMSMasterKeyID) {
+            rule.kmsMasterKeyId = `${defaultNode.KMSMasterKeyID}`;
+        }
+
+        if (defaultNode.KMSDataEncryption) {
+            rule.kmsDataEncryption = defaultNode.KMSDataEncryption;
+        }
+
+        return rule;
+    }
+
+    /**
+     * 删除 Bucket 默认的服务端加密方式
+     */
+    async deleteBucketEncryption(bucketName: string, options?: CommonOptions): Promise<void> {
+        if (isBlank(bucketName)) {
+            throw new ClientError("bucketName is required, can not be empty");
+        }
+
+        const requestConfig: RequestConfig = {
+            method: "DELETE",
+            bucketName,
+            query: {
+                encryption: null,
             },
-            versioning,
+            timeoutMs: options?.timeoutMs,
+            signal: options?.signal,
         };
 
-        return bucketInfo;
+        await super.doRequest(requestConfig);
     }
 
     /**
-     * List objects
+     * 设置 Bucket 的标签，会覆盖 Bucket 已有的全部标签
      */
-    async listObjects(bucketName: string, query?: ListObjectsQuery): Promise<ListObjectsResult> {
-        const params: Record<string, string | number | boolean> = {
-            "list-type": 2,
+    async putBucketTagging(bucketName: string, tags: Record<string, string | number | boolean>, options?: CommonOptions): Promise<void> {
+        if (isBlank(bucketName)) {
+            throw new ClientError("bucketName is required, can not be empty");
+        }
+
+        const requestConfig: RequestConfig = {
+            method: "PUT",
+            bucketName,
+            query: {
+                tagging: null,
+            },
+            timeoutMs: options?.timeoutMs,
+            signal: options?.signal,
         };
 
-        if (query) {
-            Object.entries(query).forEach(([k, v]) => params[camelToKebab(k)] = v);
+        await super.doXmlRequest(requestConfig, buildTaggingXml(tags));
+    }
+
+    /**
+     * 获取 Bucket 的标签
+     */
+    async getBucketTagging(bucketName: string, options?: CommonOptions): Promise<Record<string, string>> {
+        if (isBlank(bucketName)) {
+            throw new ClientError("bucketName is required, can not be empty");
         }
 
         const requestConfig: RequestConfig = {
             method: "GET",
             bucketName,
-            query: params
+            query: {
+                tagging: null,
+            },
+            timeoutMs: options?.timeoutMs,
+            signal: options?.signal,
         };
 
         const { content } = await super.doRequest(requestConfig);
-        const doc = parseXml(content!);
-        //@ts-ignore xml parser
-        const resultNode = doc.ListBucketResult;
-        
-        //@ts-ignore xml parser
-        const { Name: name, Prefix: prefix, MaxKeys: maxKeys, Delimiter: delimiter, IsTruncated: isTruncated, NextContinuationToken: nextContinuationToken, KeyCount: keyCount } = resultNode;
-        
-        //@ts-ignore xml parser
-        const commonPrefixes: string[] = [];
-
-        //@ts-ignore xml parser
-        if (resultNode.CommonPrefixes) {
-            //@ts-ignore xml parser
-            const commonPrefixeNodes = Array.isArray(resultNode.CommonPrefixes) ? resultNode.CommonPrefixes : [resultNode.CommonPrefixes];
-
-            //@ts-ignore xml parser
-            commonPrefixeNodes.forEach(n => commonPrefixes.push(n.Prefix));
-        }
-        
-        const contents: ListObjectsContent[] = [];
+        return parseTaggingXml(content!);
+    }
 
-        //@ts-ignore xml parser
-        if (resultNode.Contents) {
-            //@ts-ignore xml parser
-            const contentsNodes = Array.isArray(resultNode.Contents) ? resultNode.Contents : [resultNode.Contents];
-            //@ts-ignore xml parser
-            contentsNodes.forEach(n => {
-                //@ts-ignore xml parser
-                contents.push({
-                    key: n.Key,
-                    lastModified: new Date(n.LastModified),
-                    eTag: n.ETag,
-                    type: n.Type,
-                    size: n.Size,
-                    storageClass: n.StorageClass,
-                    restoreInfo: n.RestoreInfo
-                });
-            });
+    /**
+     * 删除 Bucket 的标签。`keys` 为空时删除全部标签
+     */
+    async deleteBucketTagging(bucketName: string, keys?: string[], options?: CommonOptions): Promise<void> {
+        if (isBlank(bucketName)) {
+            throw new ClientError("bucketName is required, can not be empty");
         }
 
-        return {
-            name,
-            prefix, 
-            maxKeys,
-            delimiter,
-            isTruncated,
-            nextContinuationToken,
-            keyCount,
-            commonPrefixes,
-            contents
+        const requestConfig: RequestConfig = {
+            method: "DELETE",
+            bucketName,
+            query: {
+                tagging: keys?.length ? keys.join(",") : null,
+            },
+            timeoutMs: options?.timeoutMs,
+            signal: options?.signal,
         };
-    }
-
 
+        await super.doRequest(requestConfig);
+    }
 }
-
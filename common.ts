@@ -1,14 +1,59 @@
 import { parse as parseXml } from "xml/mod.ts";
 
+import { CredentialsProvider } from "./credentials.ts";
+
 /**
  * Common options for aliyun oss operations
  */
 export interface CommonOptions {
     /**
-     * Operation timeout in milliseconds
-     * @type {[type]}
+     * Request timeout in milliseconds. It overrides the `timeoutMs` of the client.
+     * For operations sending multiple requests, e.g. `multipartUpload`, it applies to each request.
      */
     timeoutMs?: number;
+
+    /**
+     * Signal to cancel the operation. Requests in flight are aborted and no more requests are sent once it is aborted.
+     */
+    signal?: AbortSignal;
+}
+
+/**
+ * Retry policy for failed requests.
+ *
+ * Only idempotent requests (`GET`, `HEAD`, `PUT`, `DELETE` and `OPTIONS` without a stream body), `putObject` from a local file and parts of multipart uploads are retried.
+ * Requests are signed again on every attempt.
+ */
+export interface RetryOptions {
+    /**
+     * Max attempts, including the first one. Set to `1` to disable retry. Default value is `3`.
+     */
+    maxAttempts?: number;
+
+    /**
+     * The delay before the first retry in milliseconds. The delay doubles on every retry. Default value is `200`.
+     */
+    baseDelayMs?: number;
+
+    /**
+     * The upper limit of the delay between two attempts in milliseconds. Default value is `10000`.
+     */
+    maxDelayMs?: number;
+
+    /**
+     * Wait a random duration between `0` and the computed delay instead of the full delay. Default value is `true`.
+     */
+    jitter?: boolean;
+
+    /**
+     * HTTP status codes to retry. Default value is `[500, 502, 503, 504]`.
+     */
+    retryableStatusCodes?: number[];
+
+    /**
+     * OSS error codes to retry. Default value is `["RequestTimeTooSkewed", "InternalError", "ServiceUnavailable", "RequestTimeout"]`.
+     */
+    retryableErrorCodes?: string[];
 }
 
 export type HttpMethod = "GET" | "POST" | "PUT" | "DELETE" | "HEAD" | "OPTIONS";
@@ -27,8 +72,10 @@ export interface ClientConfig {
      */
     endpoint: string;
 
-    accessKeyId: string;
-    accessKeySecret: string;
+    /**
+     * Provide the credentials to sign requests
+     */
+    credentialsProvider: CredentialsProvider;
 
     /**
      * Send request over HTTPS protocol or not. Default value is `true`.
@@ -40,10 +87,20 @@ export interface ClientConfig {
      */
     cname?: boolean;
 
+    /**
+     * Use path style addressing (`endpoint/bucket/object`) instead of virtual hosted style (`bucket.endpoint/object`). Default value is `false`.
+     */
+    pathStyle?: boolean;
+
     /**
      * Operation timeout settings in milliseconds. If this property is left `undefined` or set to invalid number, request will no be timeout.
      */
     timeoutMs?: number;
+
+    /**
+     * Retry policy for failed requests.
+     */
+    retry?: RetryOptions;
 };
 
 /**
@@ -94,7 +151,7 @@ export class ClientError extends Error {
         );
     }
 
-    toJSON() {
+    toJSON(): Record<string, string | number | undefined> {
         return {
             message: this.message,
             bucketName: this.#bucketName,
@@ -107,31 +164,31 @@ export class ClientError extends Error {
         };
     }
 
-    get code() {
+    get code(): string | undefined {
         return this.#code;
     }
 
-    get bucketName() {
+    get bucketName(): string | undefined {
         return this.#bucketName;
     }
 
-    get requestId() {
+    get requestId(): string | undefined {
         return this.#requestId;
     }
 
-    get hostId() {
+    get hostId(): string | undefined {
         return this.#hostId;
     }
 
-    get ec() {
+    get ec(): string | undefined {
         return this.#ec;
     }
 
-    get recommendDoc() {
+    get recommendDoc(): string | undefined {
         return this.#recommendDoc;
     }
 
-    get status() {
+    get status(): number | undefined {
         return this.#status;
     }
 
@@ -140,6 +197,32 @@ export class ClientError extends Error {
     }
 }
 
+/**
+ * AppendObject 的 `position` 和 Object 当前的长度不一致。
+ * 可以使用 `nextAppendPosition` 作为 `position` 重新追加。
+ */
+export class PositionNotEqualToLengthError extends ClientError {
+    #nextAppendPosition: number;
+
+    constructor(error: ClientError, nextAppendPosition: number) {
+        super(error.message, error.code, error.bucketName, error.requestId, error.hostId, error.ec, error.recommendDoc, error.status);
+        this.#nextAppendPosition = nextAppendPosition;
+    }
+
+    /**
+     * Object 当前的长度，即下一次追加的位置
+     */
+    get nextAppendPosition(): number {
+        return this.#nextAppendPosition;
+    }
+
+    override toJSON(): Record<string, string | number | undefined> {
+        return Object.assign(super.toJSON(), {
+            nextAppendPosition: this.#nextAppendPosition,
+        });
+    }
+}
+
 
 /**
  * Request configurations.
@@ -151,7 +234,17 @@ export interface RequestConfig {
     objectKey?: string;
     headers?: Record<string, string>;
     query?: Record<string, string | number | boolean | null | undefined>;
-    body?: ReadableStream;
+    body?: ReadableStream | Uint8Array;
+
+    /**
+     * Timeout of this request in milliseconds. Falls back to `ClientConfig.timeoutMs` if it is `undefined`.
+     */
+    timeoutMs?: number;
+
+    /**
+     * Signal to abort this request
+     */
+    signal?: AbortSignal;
     //deno-lint-ignore no-explicit-any
     options?: Record<string, any>
 };
@@ -176,3 +269,17 @@ export interface Owner {
     id: string;
     displayName: string;
 }
+
+/**
+ * Access control list of bucket and object
+ *
+ * - `private`: only the owner and authorized users can read and write
+ * - `public-read`: everyone can read, only the owner and authorized users can write
+ * - `public-read-write`: everyone can read and write
+ */
+export type Acl = "private" | "public-read" | "public-read-write";
+
+/**
+ * Access control list of object. `default` means the object inherits the ACL of the bucket
+ */
+export type ObjectAcl = Acl | "default";
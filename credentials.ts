@@ -0,0 +1,134 @@
+import { ClientError } from "./common.ts";
+
+/**
+ * Credentials to sign requests
+ */
+export interface Credentials {
+    accessKeyId: string;
+    accessKeySecret: string;
+
+    /**
+     * Security token of STS temporary credentials. It is sent as `x-oss-security-token`.
+     */
+    securityToken?: string;
+
+    /**
+     * When the temporary credentials expire. `undefined` means the credentials never expire.
+     */
+    expiration?: Date;
+}
+
+/**
+ * Provide credentials for every request.
+ * Implementations should cache the credentials, `getCredentials` is called before each request is signed.
+ */
+export interface CredentialsProvider {
+    getCredentials(): Promise<Credentials>;
+}
+
+/**
+ * Fixed credentials
+ */
+export class StaticCredentialsProvider implements CredentialsProvider {
+    #credentials: Credentials;
+
+    constructor(accessKeyId: string, accessKeySecret: string, securityToken?: string) {
+        this.#credentials = {
+            accessKeyId,
+            accessKeySecret,
+            securityToken,
+        };
+    }
+
+    getCredentials(): Promise<Credentials> {
+        return Promise.resolve(this.#credentials);
+    }
+}
+
+/**
+ * Read credentials from environment variables on each call:
+ *
+ * - `OSS_ACCESS_KEY_ID`
+ * - `OSS_ACCESS_KEY_SECRET`
+ * - `OSS_SESSION_TOKEN`: optional, the security token of STS temporary credentials
+ */
+export class EnvironmentCredentialsProvider implements CredentialsProvider {
+    getCredentials(): Promise<Credentials> {
+        const accessKeyId = Deno.env.get("OSS_ACCESS_KEY_ID");
+        const accessKeySecret = Deno.env.get("OSS_ACCESS_KEY_SECRET");
+
+        if (!accessKeyId || !accessKeySecret) {
+            return Promise.reject(new ClientError("environment variables OSS_ACCESS_KEY_ID and OSS_ACCESS_KEY_SECRET are required"));
+        }
+
+        const securityToken = Deno.env.get("OSS_SESSION_TOKEN");
+
+        return Promise.resolve({
+            accessKeyId,
+            accessKeySecret,
+            securityToken: securityToken ? securityToken : undefined,
+        });
+    }
+}
+
+/**
+ * Options for STS credentials provider
+ */
+export interface StsCredentialsProviderOptions {
+    /**
+     * Refresh the credentials this many milliseconds before they expire. Default value is `300000` (5 minutes).
+     */
+    refreshAheadMs?: number;
+
+    /**
+     * Credentials to use before the first refresh
+     */
+    initialCredentials?: Credentials;
+}
+
+/**
+ * STS temporary credentials with auto refresh.
+ *
+ * `refresh` is called to get new credentials, e.g. by calling STS `AssumeRole`,
+ * when there are no credentials yet or the current credentials are about to expire.
+ * Concurrent requests share one pending refresh.
+ */
+export class StsCredentialsProvider implements CredentialsProvider {
+    #refresh: () => Promise<Credentials>;
+    #refreshAheadMs: number;
+    #credentials?: Credentials;
+    #pendingRefresh?: Promise<Credentials>;
+
+    constructor(refresh: () => Promise<Credentials>, options?: StsCredentialsProviderOptions) {
+        this.#refresh = refresh;
+        this.#refreshAheadMs = options?.refreshAheadMs ?? 5 * 60 * 1000;
+        this.#credentials = options?.initialCredentials;
+    }
+
+    #isExpiring(credentials: Credentials): boolean {
+        if (!credentials.expiration) {
+            return false;
+        }
+
+        return credentials.expiration.getTime() - this.#refreshAheadMs <= Date.now();
+    }
+
+    getCredentials(): Promise<Credentials> {
+        if (this.#credentials && !this.#isExpiring(this.#credentials)) {
+            return Promise.resolve(this.#credentials);
+        }
+
+        if (!this.#pendingRefresh) {
+            this.#pendingRefresh = this.#refresh()
+                .then(credentials => {
+                    this.#credentials = credentials;
+                    return credentials;
+                })
+                .finally(() => {
+                    this.#pendingRefresh = undefined;
+                });
+        }
+
+        return this.#pendingRefresh;
+    }
+}
@@ -1,5 +1,6 @@
 import { load } from "std/dotenv/mod.ts";
 import { Closer } from "std/io/types.ts";
+import { parse as parseXml } from "xml/mod.ts";
 
 const DEBUG = await (async () => {
     if (!Deno.env.get("DEBUG")) {
@@ -99,6 +100,103 @@ export function escapeXmlSpecialChars(s: string): string {
     });
 }
 
+/**
+ * 将 XML 节点的值转换为字符串。
+ * 空的节点会被 xml parser 解析成 `null`，数字形式的内容会被解析成数字，节点不存在或者为空时返回 `undefined`
+ */
+export function optionalString(v: unknown): string | undefined {
+    return v === null || v === undefined ? undefined : `${v}`;
+}
+
+/**
+ * 如果只有一个子节点，xml parser 会解析成一个对象而不是一个数组，这里统一转换为数组。
+ * 节点不存在或者为空时返回空数组
+ */
+export function toArray<T>(v: T | T[] | null | undefined): T[] {
+    if (v === null || v === undefined) {
+        return [];
+    }
+
+    return Array.isArray(v) ? v : [v];
+}
+
+/**
+ * 生成 Bucket 和 Object 标签的 XML 请求内容
+ */
+export function buildTaggingXml(tags: Record<string, string | number | boolean>): string {
+    const lines = [
+        "<?xml version=\"1.0\" encoding=\"UTF-8\"?>",
+        "<Tagging>",
+        "<TagSet>"
+    ];
+
+    Object.entries(tags).forEach(([k, v]) => {
+        lines.push("<Tag>");
+        lines.push(`<Key>${escapeXmlSpecialChars(k)}</Key>`);
+        lines.push(`<Value>${escapeXmlSpecialChars(`${v}`)}</Value>`);
+        lines.push("</Tag>");
+    });
+
+    lines.push("</TagSet>");
+    lines.push("</Tagging>");
+
+    return lines.join("\n");
+}
+
+/**
+ * 解析 Bucket 和 Object 标签的 XML 响应内容
+ */
+export function parseTaggingXml(content: string): Record<string, string> {
+    const tags: Record<string, string> = {};
+
+    //@ts-ignore xml parser
+    const tagNode = parseXml(content).Tagging?.TagSet?.Tag;
+    toArray(tagNode).forEach(n => tags[`${n.Key}`] = optionalString(n.Value) ?? "");
+
+    return tags;
+}
+
+/**
+ * Wait for a while
+ * @param {number}      ms     Milliseconds to wait
+ * @param {AbortSignal} signal Stop waiting and reject with the abort reason once it is aborted
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal!.reason);
+        };
+
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
+}
+
+/**
+ * Wrap a stream to observe the bytes flowing through it
+ * @param  {ReadableStream<Uint8Array>} stream   The source stream
+ * @param  {Function}                   onChunk  Called with the byte length of every chunk passed through
+ * @return {ReadableStream<Uint8Array>}          A stream emitting the same chunks as `stream`
+ */
+export function observeStream(stream: ReadableStream<Uint8Array>, onChunk: (bytes: number) => void): ReadableStream<Uint8Array> {
+    return stream.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+            controller.enqueue(chunk);
+            onChunk(chunk.byteLength);
+        }
+    }));
+}
+
 /**
  * Some resource in Deno will be closed automatically after use.
  * So when we are going to close a "closed" resource, error will be thrown
@@ -3,19 +3,84 @@ export type {
     ListBucketsOptions, 
     BucketInfo, 
     ListObjectsQuery, 
-    ListObjectsResult 
+    ListObjectsResult,
+    ListMultipartUploadsQuery,
+    ListMultipartUploadsResult,
+    MultipartUpload,
+    BucketStorageClass,
+    DataRedundancyType,
+    PutBucketOptions,
+    BucketStat,
+    GetBucketAclResult,
+    TransitionStorageClass,
+    LifecycleTime,
+    LifecycleExpiration,
+    LifecycleTransition,
+    NoncurrentVersionTransition,
+    LifecycleRule,
+    CorsRule,
+    CorsConfiguration,
+    BucketVersioningStatus,
+    ListObjectVersionsQuery,
+    ListObjectVersionsResult,
+    ObjectVersion,
+    DeleteMarker,
+    BucketPolicyStatement,
+    BucketPolicy,
+    RefererConfiguration,
+    WebsiteIndexDocument,
+    WebsiteErrorDocument,
+    RoutingRuleCondition,
+    MirrorHeaders,
+    RoutingRuleRedirect,
+    RoutingRule,
+    WebsiteConfiguration,
+    BucketLoggingConfiguration,
+    BucketEncryptionRule
 } from "./bucket.ts";
 
 export type { 
     PutObjectOptions, 
     PutObjectResult, 
+    AppendObjectOptions,
+    AppendObjectResult,
     HeadObjectOptions, 
     GetObjectOptions, 
     DeleteObjectOptions, 
     SignatureOptions, 
     GetObjectMetaOptions, 
     GetObjectMetaResult,
-    MultipartUploadOptions
+    MultipartUploadOptions,
+    MultipartUploadCheckpoint,
+    InitiateMultipartUploadResult,
+    UploadPartOptions,
+    UploadPartResult,
+    CopySource,
+    CopySourceConditions,
+    CopyObjectOptions,
+    CopyObjectResult,
+    MultipartCopyOptions,
+    RenameObjectOptions,
+    MovePrefixOptions,
+    MovePrefixResult,
+    UploadPartCopyOptions,
+    UploadPartCopyResult,
+    CompletedPart,
+    CompleteMultipartUploadResult,
+    ListPartsQuery,
+    ListPartsResult,
+    UploadedPart,
+    TransferProgress,
+    ProgressCallback,
+    ObjectAclOptions,
+    GetObjectAclResult,
+    ObjectTaggingOptions
 } from "./object.ts";
 
+export type { CommonOptions, RetryOptions, Acl, ObjectAcl, Owner } from "./common.ts";
+export { ClientError, PositionNotEqualToLengthError } from "./common.ts";
+
+export type { Credentials, CredentialsProvider, StsCredentialsProviderOptions } from "./credentials.ts";
+export { StaticCredentialsProvider, EnvironmentCredentialsProvider, StsCredentialsProvider } from "./credentials.ts";
+
 export * from "./oss_client.ts";
@@ -5,16 +5,46 @@ import { extname } from "std/path/mod.ts";
 
 import { parse as parseXml } from "xml/mod.ts";
 
-import { ClientConfig, RequestConfig, ClientError, HttpMethod } from "./common.ts";
+import { ClientConfig, CommonOptions, RequestConfig, ClientError, PositionNotEqualToLengthError, HttpMethod, ObjectAcl, Owner } from "./common.ts";
 import { Operation } from "./operation.ts";
-import { isBlank, log, camelToKebab, escapeXmlSpecialChars, closeResource } from "./helper.ts";
+import { isBlank, log, camelToKebab, escapeXmlSpecialChars, closeResource, observeStream, buildTaggingXml, parseTaggingXml } from "./helper.ts";
+
+/**
+ * 上传或者下载的进度
+ */
+export interface TransferProgress {
+    /**
+     * 已经传输的字节数。分片上传失败重试时，会减去失败的那次上传已经传输的字节数
+     */
+    transferredBytes: number;
+
+    /**
+     * 需要传输的总字节数。下载时如果服务端没有返回 `Content-Length`，则为 `undefined`
+     */
+    totalBytes?: number;
+
+    /**
+     * 已经上传完成的分片数量。仅分片上传时有此值
+     */
+    completedParts?: number;
+
+    /**
+     * 分片总数。仅分片上传时有此值
+     */
+    totalParts?: number;
+}
+
+/**
+ * 传输进度回调。每传输一块数据以及每完成一个分片时都会调用
+ */
+export type ProgressCallback = (progress: TransferProgress) => void;
 
 /**
  * Put object request. 
  * See [Official Document](https://help.aliyun.com/zh/oss/developer-reference/putobject?spm=a2c4g.11186623.0.0.730f4478jfQuVL) 
  * for more details.
  */
-export interface PutObjectOptions {
+export interface PutObjectOptions extends CommonOptions {
     /**
      * 指定该 Object 被下载时网页的缓存行为。选填项。取值如下：
      *
@@ -107,7 +137,7 @@ export interface PutObjectOptions {
     /**
      * Object 的访问权限
      */
-    objectAcl?: "default" | "private" | "public-read" | "public-read-write";
+    objectAcl?: ObjectAcl;
 
     /**
      * Object 的存储类型。
@@ -140,6 +170,11 @@ export interface PutObjectOptions {
      * 例如：`x:var1` = `value1`
      */
     callbackVariables?: Record<string, string>;
+
+    /**
+     * 上传进度回调
+     */
+    onProgress?: ProgressCallback;
 }
 
 /**
@@ -205,7 +240,25 @@ export interface PutObjectResult {
 }
 
 
-export interface HeadObjectOptions {
+/**
+ * AppendObject options. 元数据、访问权限、存储类型等设置只在第一次追加（创建 Object）时有效。
+ * See [Official Document](https://help.aliyun.com/zh/oss/developer-reference/appendobject) for more details.
+ */
+export interface AppendObjectOptions extends Omit<PutObjectOptions, "forbidOverwrite" | "callback" | "callbackVariables"> {}
+
+export interface AppendObjectResult {
+    /**
+     * 下一次追加的位置，即追加之后 Object 的长度
+     */
+    nextAppendPosition: number;
+
+    /**
+     * 追加之后整个 Object 的 CRC64 值
+     */
+    crc64?: string;
+}
+
+export interface HeadObjectOptions extends CommonOptions {
     /**
      * 如果传入参数中的时间早于实际修改时间，则返回 200 OK 和 Object Meta；否则抛出 ClientError, status = 304 Not Modified。
      */
@@ -225,9 +278,14 @@ export interface HeadObjectOptions {
      * 如果传入期望的 ETag 值和 Object 的 ETag 不匹配，则返回 200 OK 和 Object Meta；否则抛出 ClientError, status = 304 Not Modified。
      */
     ifNoneMatch?: string;
+
+    /**
+     * 获取指定版本的 Object 元数据
+     */
+    versionId?: string;
 }
 
-export interface GetObjectOptions {
+export interface GetObjectOptions extends CommonOptions {
     responseContentType?: string;
     responseContentLanguage?: string;
     responseExpires?: string;
@@ -263,9 +321,19 @@ export interface GetObjectOptions {
      * `application/javascript`、`application/x-javascript`、`application/rss+xml`、`application/json和text/json`。
      */
     // gzipResponse?: boolean;
+
+    /**
+     * 下载指定版本的 Object
+     */
+    versionId?: string;
+
+    /**
+     * 下载进度回调
+     */
+    onProgress?: ProgressCallback;
 }
 
-export interface DeleteObjectOptions {
+export interface DeleteObjectOptions extends CommonOptions {
     /**
      * 删除指定 `versionId` 的 Object。
      * 如果要删除 ID 为 `null` 的版本，请将此参数设置为字符串 `"null"`。
@@ -282,6 +350,334 @@ export interface MultipartUploadOptions extends PutObjectOptions {
      * 每片大小。如果不设置，则系统自动判断片大小
      */
     partSize?: number;
+
+    /**
+     * 同时上传的分片数量。默认值：`1`，即串行上传。
+     *
+     * 无论并发数是多少，完成上传时分片都会按照分片号的顺序提交。
+     * 任意一个分片上传失败时，会停止上传剩余的分片，并取消本次分片上传。
+     */
+    concurrency?: number;
+
+    /**
+     * 断点续传的检查点文件路径。
+     *
+     * 设置之后，分片上传事件的 `uploadId`、分片大小以及已经上传完成的分片信息会写入这个文件。
+     * 上传中断之后，使用相同的检查点文件再次调用 `multipartUpload` 会跳过已经上传完成的分片继续上传。
+     * 上传失败时不会取消分片上传事件；上传完成后检查点文件会被删除。
+     *
+     * 如果检查点文件记录的 Bucket、Object 或者本地文件（路径、大小、修改时间）与本次上传不一致，则会忽略检查点文件重新上传。
+     */
+    checkpoint?: string;
+
+    /**
+     * 通过 `signal` 取消上传时，是否同时取消 OSS 上的分片上传事件并删除已经上传的分片。
+     *
+     * 未启用断点续传时，取消上传总是会取消分片上传事件；
+     * 启用断点续传时默认保留分片上传事件和检查点文件，以便之后继续上传，设置为 `true` 时则会取消分片上传事件并删除检查点文件。
+     */
+    abortOnCancel?: boolean;
+}
+
+/**
+ * 断点续传的检查点，以 JSON 格式保存在 `MultipartUploadOptions.checkpoint` 指定的文件中
+ */
+export interface MultipartUploadCheckpoint {
+    bucketName: string;
+    objectKey: string;
+
+    /**
+     * 上传的本地文件路径
+     */
+    filePath: string;
+
+    /**
+     * 本地文件大小，字节为单位
+     */
+    fileSize: number;
+
+    /**
+     * 本地文件的修改时间戳，毫秒为单位
+     */
+    fileModifiedTime?: number;
+
+    uploadId: string;
+    partCount: number;
+    partSize: number;
+    lastPartSize: number;
+
+    /**
+     * 已经上传完成的分片
+     */
+    parts: CompletedPart[];
+}
+
+/**
+ * 初始化分片上传的结果
+ */
+export interface InitiateMultipartUploadResult {
+    bucketName: string;
+    objectKey: string;
+
+    /**
+     * 分片上传事件的唯一标识
+     */
+    uploadId: string;
+}
+
+export interface UploadPartOptions extends CommonOptions {
+    /**
+     * 分片内容的大小，字节为单位。使用 Stream 上传分片时必须设置
+     */
+    contentLength?: number;
+
+    /**
+     * 分片内容 MD5 摘要的 Base64 字符串形式。设置之后 OSS 会校验分片内容
+     */
+    contentMd5?: string;
+}
+
+/**
+ * 已经上传完成的分片，完成分片上传时需要提交
+ */
+export interface CompletedPart {
+    partNumber: number;
+    etag: string;
+}
+
+export interface UploadPartResult extends CompletedPart {
+    /**
+     * 分片内容的 CRC64 值
+     */
+    crc64?: string;
+}
+
+/**
+ * CopyObject 和 UploadPartCopy 的源 Object
+ */
+export interface CopySource {
+    bucketName: string;
+    objectKey: string;
+
+    /**
+     * 源 Object 的版本 ID
+     */
+    versionId?: string;
+}
+
+/**
+ * 拷贝源 Object 的前提条件
+ */
+export interface CopySourceConditions {
+    /**
+     * 如果源 Object 的 ETag 和传入的 ETag 匹配，则执行拷贝操作；否则抛出 ClientError, status = 412 Precondition Failed。
+     */
+    copySourceIfMatch?: string;
+
+    /**
+     * 如果源 Object 的 ETag 和传入的 ETag 不匹配，则执行拷贝操作；否则抛出 ClientError, status = 304 Not Modified。
+     */
+    copySourceIfNoneMatch?: string;
+
+    /**
+     * 如果传入参数中的时间等于或者晚于源 Object 的修改时间，则执行拷贝操作；否则抛出 ClientError, status = 412 Precondition Failed。
+     */
+    copySourceIfUnmodifiedSince?: string;
+
+    /**
+     * 如果源 Object 在传入参数中的时间之后被修改过，则执行拷贝操作；否则抛出 ClientError, status = 304 Not Modified。
+     */
+    copySourceIfModifiedSince?: string;
+}
+
+export interface UploadPartCopyOptions extends CommonOptions, CopySourceConditions {
+    /**
+     * 拷贝源 Object 的字节范围，包含 `start` 和 `end`。不设置时拷贝整个源 Object
+     */
+    range?: {
+        start: number;
+        end: number;
+    };
+}
+
+export interface UploadPartCopyResult extends CompletedPart {
+    lastModified: Date;
+}
+
+/**
+ * CopyObject options. 目标 Object 的元数据、存储类型、访问权限等使用 `PutObjectOptions` 中对应的字段设置。
+ * See [Official Document](https://help.aliyun.com/zh/oss/developer-reference/copyobject) for more details.
+ */
+export interface CopyObjectOptions extends Omit<PutObjectOptions, "contentLength" | "contentMd5" | "callback" | "callbackVariables" | "onProgress">, CopySourceConditions {
+    /**
+     * 目标 Object 元数据的设置方式：
+     *
+     * - `COPY`：复制源 Object 的元数据，忽略 `meta`、`contentType` 等设置。默认值
+     * - `REPLACE`：使用请求中指定的元数据
+     */
+    metadataDirective?: "COPY" | "REPLACE";
+
+    /**
+     * 目标 Object 标签的设置方式：
+     *
+     * - `COPY`：复制源 Object 的标签，忽略 `tagging` 设置。默认值
+     * - `REPLACE`：使用 `tagging` 指定的标签
+     */
+    taggingDirective?: "COPY" | "REPLACE";
+}
+
+export interface RenameObjectOptions extends CommonOptions {
+    /**
+     * 目标 Object 已经存在时是否禁止覆盖，禁止覆盖时抛出 ClientError, code = `FileAlreadyExists`。
+     * 在开启了版本控制的 Bucket 中此设置无效。默认值：`false`
+     */
+    forbidOverwrite?: boolean;
+}
+
+export interface MovePrefixOptions extends RenameObjectOptions {
+    /**
+     * 同时移动的 Object 数量。默认值：`1`
+     */
+    concurrency?: number;
+}
+
+/**
+ * 移动前缀的结果
+ */
+export interface MovePrefixResult {
+    /**
+     * 移动成功的源 Object 名字
+     */
+    movedKeys: string[];
+
+    /**
+     * 移动失败的源 Object 名字和错误。拷贝成功但删除源 Object 失败时，源 Object 和目标 Object 同时存在
+     */
+    failures: Array<{ key: string; error: unknown }>;
+}
+
+/**
+ * 分片拷贝的选项。目标 Object 的元数据不会从源 Object 复制，需要通过 `PutObjectOptions` 中对应的字段设置；
+ * 其中 `contentType` 未设置时使用源 Object 的 `Content-Type`
+ */
+export interface MultipartCopyOptions extends Omit<PutObjectOptions, "contentLength" | "contentMd5" | "callback" | "callbackVariables" | "onProgress">, CopySourceConditions {
+    /**
+     * 每片大小。如果不设置，则系统自动判断片大小
+     */
+    partSize?: number;
+
+    /**
+     * 同时拷贝的分片数量。默认值：`1`，即串行拷贝。
+     * 任意一个分片拷贝失败时，会停止拷贝剩余的分片，并取消本次分片上传。
+     */
+    concurrency?: number;
+
+    /**
+     * 拷贝进度回调，每完成一个分片调用一次
+     */
+    onProgress?: ProgressCallback;
+}
+
+export interface CopyObjectResult {
+    etag: string;
+    lastModified: Date;
+
+    /**
+     * 目标 Object 的版本 ID。仅当目标 Bucket 开启了版本控制时才会有此返回值
+     */
+    versionId?: string;
+
+    /**
+     * 源 Object 的版本 ID
+     */
+    sourceVersionId?: string;
+}
+
+/**
+ * 完成分片上传的结果
+ */
+export interface CompleteMultipartUploadResult {
+    bucketName: string;
+    objectKey: string;
+    etag: string;
+
+    /**
+     * 新创建的 Object 的 URL
+     */
+    location: string;
+
+    crc64?: string;
+
+    /**
+     * Object 的版本 ID。仅当 Bucket 开启了版本控制时才有此返回值
+     */
+    versionId?: string;
+}
+
+/**
+ * List parts query parameters.
+ * See [Official Document](https://help.aliyun.com/zh/oss/developer-reference/listparts) for more details.
+ */
+export interface ListPartsQuery extends CommonOptions {
+    /**
+     * 本次返回的最大分片数量。取值范围：`1~1000`。默认值：`1000`
+     */
+    maxParts?: number;
+
+    /**
+     * 从此分片号之后开始返回分片
+     */
+    partNumberMarker?: number;
+}
+
+/**
+ * 已经上传的分片
+ */
+export interface UploadedPart {
+    partNumber: number;
+    lastModified: Date;
+    etag: string;
+    size: number;
+    crc64?: string;
+}
+
+export interface ListPartsResult {
+    bucketName: string;
+    objectKey: string;
+    uploadId: string;
+    partNumberMarker?: number;
+    nextPartNumberMarker?: number;
+    maxParts?: number;
+    isTruncated?: boolean;
+    parts: UploadedPart[];
+}
+
+export interface ObjectAclOptions extends CommonOptions {
+    /**
+     * 指定 Object 的版本 ID。不设置时操作 Object 的当前版本
+     */
+    versionId?: string;
+}
+
+export interface ObjectTaggingOptions extends CommonOptions {
+    /**
+     * 指定 Object 的版本 ID。不设置时操作 Object 的当前版本
+     */
+    versionId?: string;
+}
+
+/**
+ * Object 的访问权限
+ */
+export interface GetObjectAclResult {
+    owner: Owner;
+
+    /**
+     * `default` 表示 Object 遵循 Bucket 的访问权限
+     */
+    grant: ObjectAcl;
+
+    versionId?: string;
 }
 
 export interface SignatureOptions {
@@ -313,7 +709,7 @@ export interface SignatureOptions {
     additionalParameters?: Record<string, string>;
 }
 
-export interface GetObjectMetaOptions {
+export interface GetObjectMetaOptions extends CommonOptions {
     versionId?: string;
 }
 
@@ -366,7 +762,7 @@ export class ObjectOperation extends Operation {
      * @param bucketName The bucket name
      * @param folderPath The full folder path: `foo/bar/new_folder/`. no prefix `/` but with appended `/`
      */
-    async createFolder(bucketName: string, folderPath: string) {
+    async createFolder(bucketName: string, folderPath: string, options?: CommonOptions) {
         if (isBlank(bucketName) || isBlank(folderPath)) {
             throw new ClientError("invalid bucket name or folder path to create a new folder");
         }
@@ -384,6 +780,8 @@ export class ObjectOperation extends Operation {
             method: "PUT",
             bucketName,
             objectKey,
+            timeoutMs: options?.timeoutMs,
+            signal: options?.signal,
         };
 
         await super.doRequest(requestConfig);
@@ -504,13 +902,26 @@ export class ObjectOperation extends Operation {
         }
 
         const headers = this.#buildPutObjectHeaders(options);
+
+        let body = stream;
+        const onProgress = options?.onProgress;
+        if (onProgress) {
+            const totalBytes = options?.contentLength === undefined ? undefined : Number(options!.contentLength);
+            let transferredBytes = 0;
+            body = observeStream(stream, (bytes) => {
+                transferredBytes += bytes;
+                onProgress({ transferredBytes, totalBytes });
+            });
+        }
         
         const requestConfig: RequestConfig = {
             method: "PUT",
             bucketName,
             objectKey: sanitizedObjectKey,
             headers,
-            body: stream,
+            body,
+            timeoutMs: options?.timeoutMs,
+            signal: options?.signal,
         };
 
         const { headers: responseHeaders, content } = await super.doRequest(requestConfig);
@@ -527,33 +938,157 @@ export class ObjectOperation extends Operation {
     }
 
     /**
-     * 上传 Object。
+     * 以追加的方式上传 Object。`source` 可以是 Stream 或者本地文件路径。
      *
-     * `objectKey` 无需包含签到的斜线（`/`）。例如：`foo/bar/example.png`。
+     * `position` 是追加的位置，第一次追加（创建 Object）时为 `0`，之后为上一次追加返回的 `nextAppendPosition`。
+     * `position` 和 Object 当前的长度不一致时抛出 `PositionNotEqualToLengthError`，可以使用它的 `nextAppendPosition` 重新追加。
      *
-     * 如果上传文件的时候指定了 `callback` 选项，那么返回值是 OSS 调用 callback 之后返回的内容字符串
+     * 使用 Stream 追加时，必需设置 `options` 中的 `contentLength`。
      */
-    async putObject(bucketName: string, objectKey: string, filePath: string, options?: PutObjectOptions): Promise<PutObjectResult | string> {
-        if (isBlank(filePath)) {
-            throw new ClientError("filePath must NOT be emtpy");
+    async appendObject(bucketName: string, objectKey: string, position: number, source: ReadableStream | string, options?: AppendObjectOptions): Promise<AppendObjectResult> {
+        if (isBlank(bucketName) || isBlank(objectKey)) {
+            throw new ClientError("bucketName and objectKey are required, can not be empty");
         }
 
-        let file: Deno.FsFile | undefined = undefined;
+        if (!Number.isInteger(position) || position < 0) {
+            throw new ClientError("position must be a non-negative integer");
+        }
 
-        try {
-            file = await Deno.open(filePath);
-            const stat = await file.stat();
-            if (!stat.isFile) {
-                throw new ClientError(`${filePath} is not a regular file`);
-            }
+        if (typeof source === "string") {
+            return await this.#appendFile(bucketName, objectKey, position, source, options);
+        }
 
-            if (stat.size === 0) {
-                throw new ClientError(`${filePath} length is 0, can not put to OSS as a regular file`);
-            }
-            const [s0, s1] = file.readable.tee();
-            const contentMd5 = encodeBase64(await crypto.subtle.digest("MD5", s1));
-            const ext = extname(filePath);
-            const mime = contentType(ext);
+        let sanitizedObjectKey = objectKey;
+        if (sanitizedObjectKey.startsWith("/")) {
+            sanitizedObjectKey = sanitizedObjectKey.substring(1);
+        }
+
+        const headers = this.#buildPutObjectHeaders(options);
+
+        let body = source;
+        const onProgress = options?.onProgress;
+        if (onProgress) {
+            const totalBytes = options?.contentLength === undefined ? undefined : Number(options!.contentLength);
+            let transferredBytes = 0;
+            body = observeStream(source, (bytes) => {
+                transferredBytes += bytes;
+                onProgress({ transferredBytes, totalBytes });
+            });
+        }
+
+        const requestConfig: RequestConfig = {
+            method: "POST",
+            bucketName,
+            objectKey: sanitizedObjectKey,
+            headers,
+            query: {
+                append: null,
+                position: `${position}`,
+            },
+            body,
+            timeoutMs: options?.timeoutMs,
+            signal: options?.signal,
+        };
+
+        // 需要从响应头中读取 x-oss-next-append-position，所以不使用 doRequest
+        const response = await super.sendRequest(requestConfig);
+        const content = await response.text();
+        const nextAppendPosition = parseInt(`${response.headers.get("x-oss-next-append-position")}`);
+        if (300 <= response.status) {
+            const error = super.buildResponseError(response.status, content);
+            if (error.code === "PositionNotEqualToLength" && !isNaN(nextAppendPosition)) {
+                throw new PositionNotEqualToLengthError(error, nextAppendPosition);
+            }
+            throw error;
+        }
+
+        if (isNaN(nextAppendPosition)) {
+            throw new ClientError("invalid x-oss-next-append-position response header while append object");
+        }
+
+        return {
+            nextAppendPosition,
+            crc64: response.headers.get("x-oss-hash-crc64ecma") ?? undefined,
+        };
+    }
+
+    async #appendFile(bucketName: string, objectKey: string, position: number, filePath: string, options?: AppendObjectOptions): Promise<AppendObjectResult> {
+        if (isBlank(filePath)) {
+            throw new ClientError("filePath must NOT be emtpy");
+        }
+
+        let file: Deno.FsFile | undefined = undefined;
+
+        try {
+            file = await Deno.open(filePath);
+            const stat = await file.stat();
+            if (!stat.isFile) {
+                throw new ClientError(`${filePath} is not a regular file`);
+            }
+
+            if (stat.size === 0) {
+                throw new ClientError(`${filePath} length is 0, nothing to append`);
+            }
+
+            const contentMd5 = encodeBase64(await crypto.subtle.digest("MD5", file.readable));
+            const mime = contentType(extname(filePath));
+
+            const opt: AppendObjectOptions = Object.assign({
+                contentMd5,
+                contentLength: BigInt(stat.size),
+            }, options);
+
+            if (mime && !opt.contentType) {
+                opt.contentType = mime;
+            }
+
+            // 计算 MD5 时已经读完了文件，重新打开文件作为请求内容
+            closeResource(file);
+            file = await Deno.open(filePath);
+
+            return await this.appendObject(bucketName, objectKey, position, file.readable, opt);
+        } catch (e) {
+            if (e instanceof Deno.errors.NotFound) {
+                throw new ClientError(`can not find file ${filePath}`);
+            }
+
+            if (e instanceof Deno.errors.PermissionDenied) {
+                throw new ClientError(`can not read file ${filePath}`);
+            }
+
+            throw e;
+        } finally {
+            closeResource(file);
+        }
+    }
+
+    /**
+     * 上传 Object。
+     *
+     * `objectKey` 无需包含签到的斜线（`/`）。例如：`foo/bar/example.png`。
+     *
+     * 如果上传文件的时候指定了 `callback` 选项，那么返回值是 OSS 调用 callback 之后返回的内容字符串
+     */
+    async putObject(bucketName: string, objectKey: string, filePath: string, options?: PutObjectOptions): Promise<PutObjectResult | string> {
+        if (isBlank(filePath)) {
+            throw new ClientError("filePath must NOT be emtpy");
+        }
+
+        let file: Deno.FsFile | undefined = undefined;
+
+        try {
+            file = await Deno.open(filePath);
+            const stat = await file.stat();
+            if (!stat.isFile) {
+                throw new ClientError(`${filePath} is not a regular file`);
+            }
+
+            if (stat.size === 0) {
+                throw new ClientError(`${filePath} length is 0, can not put to OSS as a regular file`);
+            }
+            const contentMd5 = encodeBase64(await crypto.subtle.digest("MD5", file.readable));
+            const ext = extname(filePath);
+            const mime = contentType(ext);
 
             const opt = Object.assign({
                 contentMd5,
@@ -563,7 +1098,9 @@ export class ObjectOperation extends Operation {
             if (mime) {
                 opt.contentType = mime;
             }
-            return await this.putStream(bucketName, objectKey, s0, opt);
+
+            // Stream 只能读取一次，每次重试都重新打开文件
+            return await super.withRetry(() => this.#putFileOnce(bucketName, objectKey, filePath, opt), options?.signal);
         } catch (e) {
             if (e instanceof Deno.errors.NotFound) {
                 throw new ClientError(`can not find file ${filePath}`);
@@ -585,6 +1122,17 @@ export class ObjectOperation extends Operation {
         }
     }
 
+    async #putFileOnce(bucketName: string, objectKey: string, filePath: string, options: PutObjectOptions): Promise<PutObjectResult | string> {
+        let file: Deno.FsFile | undefined = undefined;
+
+        try {
+            file = await Deno.open(filePath);
+            return await this.putStream(bucketName, objectKey, file.readable, options);
+        } finally {
+            closeResource(file);
+        }
+    }
+
     /**
      * 获取某个 Object 的元数据。
      *
@@ -596,14 +1144,19 @@ export class ObjectOperation extends Operation {
             throw new ClientError("bucketName and objectKey are required, can not be empty");
         }
 
+        const { timeoutMs, signal, versionId, ...headerOptions } = Object.assign({}, options);
+
         const headers: Record<string, string> = {};
-        Object.entries(Object.assign({}, options)).forEach(([k, v]) => headers[camelToKebab(k)] = v);
+        Object.entries(headerOptions).forEach(([k, v]) => headers[camelToKebab(k)] = v);
 
         const requestConfig: RequestConfig = {
             method: "HEAD",
             bucketName,
             objectKey,
-            headers
+            headers,
+            query: versionId ? { versionId } : undefined,
+            timeoutMs,
+            signal,
         };
 
         const { headers: responseHeaders } = await super.doRequest(requestConfig);
@@ -627,7 +1180,9 @@ export class ObjectOperation extends Operation {
             method: "HEAD",
             bucketName,
             objectKey,
-            query
+            query,
+            timeoutMs: options?.timeoutMs,
+            signal: options?.signal,
         };
 
         const { headers: responseHeaders } = await super.doRequest(requestConfig);
@@ -662,8 +1217,10 @@ export class ObjectOperation extends Operation {
             throw new ClientError("bucketName and objectKey are required, can not be empty");
         }
 
+        const { onProgress, timeoutMs, signal, versionId, ...headerOptions } = Object.assign({}, options);
+
         const headers: Record<string, string> = {};
-        Object.entries(Object.assign({}, options))
+        Object.entries(headerOptions)
             .forEach(([k, v]) => headers[camelToKebab(k)] = v);
 
         // if (options?.gzipResponse) {
@@ -675,33 +1232,46 @@ export class ObjectOperation extends Operation {
             bucketName,
             objectKey,
             headers,
+            query: versionId ? { versionId } : undefined,
+            timeoutMs,
+            signal,
         };
 
-        const response = await super.sendRequest(requestConfig);
+        const response = await super.withRetry(async () => {
+            const response = await super.sendRequest(requestConfig);
 
-        response.headers.forEach((v, k) => {
-            log(`< headers: ${k}: ${v}`);
-        });
+            response.headers.forEach((v, k) => {
+                log(`< headers: ${k}: ${v}`);
+            });
 
-        const status = response.status;
+            const status = response.status;
 
-        if (status !== 200) {
-            const content = await response.text();
-            if (content) {
-                throw ClientError.fromResponseContent(content);
-            } else {
-                throw new ClientError(`Status code is not OK ${status}`, undefined, undefined, undefined, undefined, undefined, undefined, status);
+            if (status !== 200) {
+                throw super.buildResponseError(status, await response.text());
             }
-        }
+
+            return response;
+        }, signal);
 
         if (response.body === null) {
             throw new ClientError("null respnose body");
         }
 
+        let body = response.body;
+        if (onProgress) {
+            const contentLength = response.headers.get("content-length");
+            const totalBytes = contentLength === null ? undefined : parseInt(contentLength);
+            let transferredBytes = 0;
+            body = observeStream(body, (bytes) => {
+                transferredBytes += bytes;
+                onProgress({ transferredBytes, totalBytes });
+            });
+        }
+
         const file = await Deno.create(localFilepath);
 
         log(`start downloading ${bucketName}, ${objectKey} to ${localFilepath}`);
-        await response.body.pipeTo(file.writable);
+        await body.pipeTo(file.writable);
 
         log(`${bucketName}, ${objectKey} to ${localFilepath} done`);
     }
@@ -720,13 +1290,15 @@ export class ObjectOperation extends Operation {
             method: "DELETE",
             bucketName,
             objectKey,
-            query
+            query,
+            timeoutMs: options?.timeoutMs,
+            signal: options?.signal,
         };
 
         await super.doRequest(requestConfig);
     }
 
-    async deleteMultipleObjects(bucketName: string, items: {key: string; versionId?: string}[], quiet?: boolean): Promise<void> {
+    async deleteMultipleObjects(bucketName: string, items: {key: string; versionId?: string}[], quiet?: boolean, options?: CommonOptions): Promise<void> {
         if (isBlank(bucketName) || items.length === 0) {
             throw new ClientError("bucketName and items are required");
         }
@@ -777,154 +1349,529 @@ export class ObjectOperation extends Operation {
             query: {
                 "delete": undefined
             },
-            body: stream
+            body: stream,
+            timeoutMs: options?.timeoutMs,
+            signal: options?.signal,
         };
 
         await super.doRequest(requestConfig);
     }
 
     /**
-     * 生成预签名的 URL。
-     * 大部分情况下，预签名的 URL 都是为了实现 `GET` 请求，所以在签名过程中，`host` 没有参与签名。
-     * 方便针对签名后的 URL 替换 hostname 为 CDN 地址、自定义域名等。
-     *
-     * 其他请求方式的预签名 URL 还没有测试，请谨慎使用。
+     * 获取 Object 的访问权限
      */
-    signatureUrl(method: HttpMethod, bucketName: string, objectKey: string, options: SignatureOptions): Promise<string> {
-        if (isBlank(method) || isBlank(bucketName) || isBlank(objectKey)) {
-            throw new ClientError("method, bucketName and objectKey are required, can not be empty");
+    async getObjectAcl(bucketName: string, objectKey: string, options?: ObjectAclOptions): Promise<GetObjectAclResult> {
+        if (isBlank(bucketName) || isBlank(objectKey)) {
+            throw new ClientError("bucketName and objectKey are required, can not be empty");
         }
 
-        const headers: Record<string, string> = {};
-
-        if (options.contentType) {
-            headers["content-type"] = options.contentType;
-        }
-        
-        const query: Record<string, string> = {
-            "x-oss-expires": `${options.ttlSeconds}`
+        const query: Record<string, string | null> = {
+            acl: null,
         };
 
-        if (options.process) {
-            query["x-oss-process"] = options.process;
-        }
-
-        Object.entries(options).filter(([k, _]) => k.startsWith("response")).forEach(([k, v]) => query[camelToKebab(k)] = v);
-
-        if (options.additionalParameters) {
-            Object.entries(options.additionalParameters).forEach(([k, v]) => query[k] = v);
+        if (options?.versionId) {
+            query["versionId"] = options!.versionId;
         }
 
         const requestConfig: RequestConfig = {
-            method,
+            method: "GET",
             bucketName,
             objectKey,
-            headers,
-            query
+            query,
+            timeoutMs: options?.timeoutMs,
+            signal: options?.signal,
         };
 
-        return super.generatePresignedUrl(requestConfig);
+        const { headers: responseHeaders, content } = await super.doRequest(requestConfig);
+        const {
+            //@ts-ignore xml parser
+            Owner: owner,
+
+            //@ts-ignore xml parser
+            AccessControlList: accessControlList
+        } = parseXml(content!).AccessControlPolicy;
+
+        return {
+            owner: {
+                id: `${owner?.ID}`,
+                displayName: `${owner?.DisplayName}`,
+            },
+            grant: accessControlList?.Grant,
+            versionId: responseHeaders["x-oss-version-id"],
+        };
     }
 
     /**
-     * 初始化分片上传
-     * @return {Promise<string>}             The upload id
+     * 设置 Object 的访问权限。`default` 表示 Object 遵循 Bucket 的访问权限
      */
-    async #initMultipartUpload(bucketName: string, objectKey: string, options?: PutObjectOptions): Promise<string> {
-        const opt = Object.assign({}, options);
+    async putObjectAcl(bucketName: string, objectKey: string, acl: ObjectAcl, options?: ObjectAclOptions): Promise<void> {
+        if (isBlank(bucketName) || isBlank(objectKey) || isBlank(acl)) {
+            throw new ClientError("bucketName, objectKey and acl are required, can not be empty");
+        }
 
-        delete opt.callback;
-        delete opt.callbackVariables;
+        const query: Record<string, string | null> = {
+            acl: null,
+        };
 
-        const headers = this.#buildPutObjectHeaders(opt);
+        if (options?.versionId) {
+            query["versionId"] = options!.versionId;
+        }
 
         const requestConfig: RequestConfig = {
-            method: "POST",
+            method: "PUT",
             bucketName,
             objectKey,
-            headers,
-            query: {
-                "uploads": undefined
-            }
+            headers: {
+                "x-oss-object-acl": acl,
+            },
+            query,
+            timeoutMs: options?.timeoutMs,
+            signal: options?.signal,
         };
-        const { content } = await super.doRequest(requestConfig);
-        if (! content) {
-            throw new ClientError("empty resopnse content while initialize multipart upload");
-        }
 
-        const doc = parseXml(content);
-
-        //@ts-ignore xml parser
-        return doc["InitiateMultipartUploadResult"]["UploadId"];
+        await super.doRequest(requestConfig);
     }
 
     /**
-     * 计算分片的配置
-     * @param {number} fileSize     文件大小，字节为单位
-     * @param {number} userPartSize 用户指定的每片的大小
+     * 在服务端拷贝 Object，源 Object 可以在同一地域的其他 Bucket 中。单次拷贝的 Object 不能超过 1GB，更大的 Object 请使用 `multipartCopy`。
      */
-    #buildPartConfig(fileSize: number, userPartSize?: number): { 
-        partCount: number, 
-        partSize: number, 
-        lastPartSize: number 
-    } {
-        const MAX_PART_COUNT = 10000;
-        const MAX_PART_SIZE = 1024 ** 3 * 5; // max 5GB/part
-        let partSize = userPartSize ? userPartSize : 1024 * 1024 * 100;
+    async copyObject(bucketName: string, objectKey: string, source: CopySource, options?: CopyObjectOptions): Promise<CopyObjectResult> {
+        if (isBlank(bucketName) || isBlank(objectKey)) {
+            throw new ClientError("bucketName and objectKey are required, can not be empty");
+        }
 
-        if (partSize > fileSize) {
-            return {
-                partCount: 1,
-                partSize: fileSize,
-                lastPartSize: fileSize,
-            };
+        if (isBlank(source?.bucketName) || isBlank(source?.objectKey)) {
+            throw new ClientError("source bucketName and objectKey are required, can not be empty");
         }
 
-        let partCount = Math.floor((fileSize - 1) / partSize) + 1;
+        let sanitizedObjectKey = objectKey;
+        if (sanitizedObjectKey.startsWith("/")) {
+            sanitizedObjectKey = sanitizedObjectKey.substring(1);
+        }
 
-        if (partCount > 10000) {
-            partSize = Math.ceil(partSize * (partCount / 10000));
-            partCount = Math.floor((fileSize - 1) / partSize) + 1;
+        const headers = this.#buildPutObjectHeaders(options);
+        headers["x-oss-copy-source"] = this.#buildCopySource(source);
+
+        if (options?.metadataDirective) {
+            headers["x-oss-metadata-directive"] = options!.metadataDirective;
         }
 
-        if (partCount > MAX_PART_COUNT || partSize > MAX_PART_SIZE) {
-            throw new ClientError("file is too large to upload to aliyun oss");
+        if (options?.taggingDirective) {
+            headers["x-oss-tagging-directive"] = options!.taggingDirective;
         }
 
-        const lastPartSize = fileSize % partCount === 0 ? partSize : fileSize - (partSize * (partCount - 1));
+        const conditions: CopySourceConditions = {
+            copySourceIfMatch: options?.copySourceIfMatch,
+            copySourceIfNoneMatch: options?.copySourceIfNoneMatch,
+            copySourceIfUnmodifiedSince: options?.copySourceIfUnmodifiedSince,
+            copySourceIfModifiedSince: options?.copySourceIfModifiedSince,
+        };
+
+        Object.entries(conditions)
+            .filter(([_k, v]) => v !== undefined)
+            .forEach(([k, v]) => headers[`x-oss-${camelToKebab(k)}`] = v);
+
+        const requestConfig: RequestConfig = {
+            method: "PUT",
+            bucketName,
+            objectKey: sanitizedObjectKey,
+            headers,
+            timeoutMs: options?.timeoutMs,
+            signal: options?.signal,
+        };
+
+        const { headers: responseHeaders, content } = await super.doRequest(requestConfig);
+        const {
+            //@ts-ignore xml parser
+            ETag: etag,
+
+            //@ts-ignore xml parser
+            LastModified: lastModified
+        } = parseXml(content!).CopyObjectResult;
 
         return {
-            partCount,
-            partSize,
-            lastPartSize
+            etag: `${etag}`,
+            lastModified: new Date(lastModified),
+            versionId: responseHeaders["x-oss-version-id"],
+            sourceVersionId: responseHeaders["x-oss-copy-source-version-id"],
         };
     }
 
     /**
-     * 上传文件片
-     * @return {Promise<string>}            ETag 响应头
+     * 获取 Object 的标签
      */
-    async #uploadFilePart(bucketName: string, objectKey: string, filePath: string, uploadId: string, partId: number, startByte: number, endByte: number): Promise<string> {
-        let file: Deno.FsFile | undefined;
-        let payloadStream: ReadableStream | undefined;
-
-        const BUF_LEN = 1024 * 64; // 64kB buffer
-        
+    async getObjectTagging(bucketName: string, objectKey: string, options?: ObjectTaggingOptions): Promise<Record<string, string>> {
+        if (isBlank(bucketName) || isBlank(objectKey)) {
+            throw new ClientError("bucketName and objectKey are required, can not be empty");
+        }
 
-        const totalBytes = endByte - startByte;
-        let totalRead = 0;
+        const query: Record<string, string | null> = {
+            tagging: null,
+        };
 
-        try {
-            file = await Deno.open(filePath);
-            console.log(file);
-            file.seek(startByte, Deno.SeekMode.Start);
-            log(`${filePath} seek to ${startByte}`);
-            payloadStream = new ReadableStream({
-                start(_controller) {
+        if (options?.versionId) {
+            query["versionId"] = options!.versionId;
+        }
 
-                },
-                async pull(controller) {
-                    // log(`total read: ${totalRead} from total bytes: ${totalBytes}`);
+        const requestConfig: RequestConfig = {
+            method: "GET",
+            bucketName,
+            objectKey,
+            query,
+            timeoutMs: options?.timeoutMs,
+            signal: options?.signal,
+        };
+
+        const { content } = await super.doRequest(requestConfig);
+        return parseTaggingXml(content!);
+    }
+
+    /**
+     * 设置 Object 的标签，会覆盖 Object 已有的全部标签
+     */
+    async putObjectTagging(bucketName: string, objectKey: string, tags: Record<string, string | number | boolean>, options?: ObjectTaggingOptions): Promise<void> {
+        if (isBlank(bucketName) || isBlank(objectKey)) {
+            throw new ClientError("bucketName and objectKey are required, can not be empty");
+        }
+
+        const query: Record<string, string | null> = {
+            tagging: null,
+        };
+
+        if (options?.versionId) {
+            query["versionId"] = options!.versionId;
+        }
+
+        const requestConfig: RequestConfig = {
+            method: "PUT",
+            bucketName,
+            objectKey,
+            query,
+            timeoutMs: options?.timeoutMs,
+            signal: options?.signal,
+        };
+
+        await super.doXmlRequest(requestConfig, buildTaggingXml(tags));
+    }
+
+    /**
+     * 删除 Object 的全部标签
+     */
+    async deleteObjectTagging(bucketName: string, objectKey: string, options?: ObjectTaggingOptions): Promise<void> {
+        if (isBlank(bucketName) || isBlank(objectKey)) {
+            throw new ClientError("bucketName and objectKey are required, can not be empty");
+        }
+
+        const query: Record<string, string | null> = {
+            tagging: null,
+        };
+
+        if (options?.versionId) {
+            query["versionId"] = options!.versionId;
+        }
+
+        const requestConfig: RequestConfig = {
+            method: "DELETE",
+            bucketName,
+            objectKey,
+            query,
+            timeoutMs: options?.timeoutMs,
+            signal: options?.signal,
+        };
+
+        await super.doRequest(requestConfig);
+    }
+
+    /**
+     * 生成预签名的 URL。
+     * 大部分情况下，预签名的 URL 都是为了实现 `GET` 请求，所以在签名过程中，`host` 没有参与签名。
+     * 方便针对签名后的 URL 替换 hostname 为 CDN 地址、自定义域名等。
+     *
+     * 其他请求方式的预签名 URL 还没有测试，请谨慎使用。
+     */
+    signatureUrl(method: HttpMethod, bucketName: string, objectKey: string, options: SignatureOptions): Promise<string> {
+        if (isBlank(method) || isBlank(bucketName) || isBlank(objectKey)) {
+            throw new ClientError("method, bucketName and objectKey are required, can not be empty");
+        }
+
+        const headers: Record<string, string> = {};
+
+        if (options.contentType) {
+            headers["content-type"] = options.contentType;
+        }
+        
+        const query: Record<string, string> = {
+            "x-oss-expires": `${options.ttlSeconds}`
+        };
+
+        if (options.process) {
+            query["x-oss-process"] = options.process;
+        }
+
+        Object.entries(options).filter(([k, _]) => k.startsWith("response")).forEach(([k, v]) => query[camelToKebab(k)] = v);
+
+        if (options.additionalParameters) {
+            Object.entries(options.additionalParameters).forEach(([k, v]) => query[k] = v);
+        }
+
+        const requestConfig: RequestConfig = {
+            method,
+            bucketName,
+            objectKey,
+            headers,
+            query
+        };
+
+        return super.generatePresignedUrl(requestConfig);
+    }
+
+    /**
+     * 初始化分片上传，获取分片上传事件的 `uploadId`。
+     *
+     * `options` 中的 `callback` 和 `callbackVariables` 会被忽略，请在完成分片上传时设置。
+     */
+    async initiateMultipartUpload(bucketName: string, objectKey: string, options?: PutObjectOptions): Promise<InitiateMultipartUploadResult> {
+        if (isBlank(bucketName) || isBlank(objectKey)) {
+            throw new ClientError("bucketName and objectKey are required, can not be empty");
+        }
+
+        const opt = Object.assign({}, options);
+
+        delete opt.callback;
+        delete opt.callbackVariables;
+
+        const headers = this.#buildPutObjectHeaders(opt);
+
+        const requestConfig: RequestConfig = {
+            method: "POST",
+            bucketName,
+            objectKey,
+            headers,
+            query: {
+                "uploads": undefined
+            },
+            timeoutMs: options?.timeoutMs,
+            signal: options?.signal,
+        };
+        const { content } = await super.doRequest(requestConfig);
+        if (! content) {
+            throw new ClientError("empty resopnse content while initialize multipart upload");
+        }
+
+        const {
+            //@ts-ignore xml parser
+            Bucket: resultBucketName,
+
+            //@ts-ignore xml parser
+            Key: resultObjectKey,
+
+            //@ts-ignore xml parser
+            UploadId: uploadId
+        } = parseXml(content).InitiateMultipartUploadResult;
+
+        return {
+            bucketName: `${resultBucketName}`,
+            objectKey: `${resultObjectKey}`,
+            uploadId: `${uploadId}`,
+        };
+    }
+
+    /**
+     * 上传分片。`partNumber` 取值范围：`1~10000`。
+     *
+     * 使用 Stream 上传分片时，必须设置 `options` 中的 `contentLength`。
+     */
+    async uploadPart(bucketName: string, objectKey: string, uploadId: string, partNumber: number, stream: ReadableStream, options?: UploadPartOptions): Promise<UploadPartResult> {
+        if (isBlank(bucketName) || isBlank(objectKey) || isBlank(uploadId)) {
+            throw new ClientError("bucketName, objectKey and uploadId are required, can not be empty");
+        }
+
+        const headers: Record<string, string> = {};
+        if (options?.contentLength !== undefined) {
+            headers["content-length"] = `${options!.contentLength}`;
+        }
+
+        if (options?.contentMd5) {
+            headers["content-md5"] = options!.contentMd5;
+        }
+
+        const requestConfig: RequestConfig = {
+            method: "PUT",
+            bucketName,
+            objectKey,
+            headers,
+            query: {
+                partNumber: `${partNumber}`,
+                uploadId,
+            },
+            body: stream,
+            timeoutMs: options?.timeoutMs,
+            signal: options?.signal,
+        };
+
+        const { headers: responseHeaders } = await super.doRequest(requestConfig);
+        return {
+            partNumber,
+            etag: responseHeaders["etag"],
+            crc64: responseHeaders["x-oss-hash-crc64ecma"],
+        };
+    }
+
+    #buildCopySource(source: CopySource): string {
+        const sourceKey = source.objectKey.startsWith("/") ? source.objectKey.substring(1) : source.objectKey;
+        const encodedSourceKey = sourceKey.split("/").map(s => encodeURIComponent(s)).join("/");
+        let copySource = `/${source.bucketName}/${encodedSourceKey}`;
+        if (source.versionId) {
+            copySource = `${copySource}?versionId=${encodeURIComponent(source.versionId)}`;
+        }
+
+        return copySource;
+    }
+
+    /**
+     * 从已存在的 Object 拷贝数据作为分片。
+     *
+     * 通过 `options.range` 拷贝源 Object 的一部分，不设置时拷贝整个源 Object。
+     */
+    async uploadPartCopy(bucketName: string, objectKey: string, uploadId: string, partNumber: number, source: CopySource, options?: UploadPartCopyOptions): Promise<UploadPartCopyResult> {
+        if (isBlank(bucketName) || isBlank(objectKey) || isBlank(uploadId)) {
+            throw new ClientError("bucketName, objectKey and uploadId are required, can not be empty");
+        }
+
+        if (isBlank(source?.bucketName) || isBlank(source?.objectKey)) {
+            throw new ClientError("source bucketName and objectKey are required, can not be empty");
+        }
+
+        const headers: Record<string, string> = {
+            "x-oss-copy-source": this.#buildCopySource(source),
+        };
+
+        const { range, timeoutMs, signal, ...conditions } = Object.assign({}, options);
+        if (range) {
+            headers["x-oss-copy-source-range"] = `bytes=${range.start}-${range.end}`;
+        }
+
+        Object.entries(conditions)
+            .filter(([_k, v]) => v !== undefined)
+            .forEach(([k, v]) => headers[`x-oss-${camelToKebab(k)}`] = v);
+
+        const requestConfig: RequestConfig = {
+            method: "PUT",
+            bucketName,
+            objectKey,
+            headers,
+            query: {
+                partNumber: `${partNumber}`,
+                uploadId,
+            },
+            timeoutMs,
+            signal,
+        };
+
+        const { content } = await super.doRequest(requestConfig);
+        if (! content) {
+            throw new ClientError("empty resopnse content while upload part copy");
+        }
+
+        const {
+            //@ts-ignore xml parser
+            ETag: etag,
+
+            //@ts-ignore xml parser
+            LastModified: lastModified
+        } = parseXml(content).CopyPartResult;
+
+        return {
+            partNumber,
+            etag: `${etag}`,
+            lastModified: new Date(lastModified),
+        };
+    }
+
+    /**
+     * 计算分片的配置
+     * @param {number} fileSize     文件大小，字节为单位
+     * @param {number} userPartSize 用户指定的每片的大小
+     */
+    #buildPartConfig(fileSize: number, userPartSize?: number): { 
+        partCount: number, 
+        partSize: number, 
+        lastPartSize: number 
+    } {
+        const MAX_PART_COUNT = 10000;
+        const MAX_PART_SIZE = 1024 ** 3 * 5; // max 5GB/part
+        let partSize = userPartSize ? userPartSize : 1024 * 1024 * 100;
+
+        if (partSize > fileSize) {
+            return {
+                partCount: 1,
+                partSize: fileSize,
+                lastPartSize: fileSize,
+            };
+        }
+
+        let partCount = Math.floor((fileSize - 1) / partSize) + 1;
+
+        if (partCount > 10000) {
+            partSize = Math.ceil(partSize * (partCount / 10000));
+            partCount = Math.floor((fileSize - 1) / partSize) + 1;
+        }
+
+        if (partCount > MAX_PART_COUNT || partSize > MAX_PART_SIZE) {
+            throw new ClientError("file is too large to upload to aliyun oss");
+        }
+
+        const lastPartSize = fileSize % partSize === 0 ? partSize : fileSize - (partSize * (partCount - 1));
+
+        return {
+            partCount,
+            partSize,
+            lastPartSize
+        };
+    }
+
+    /**
+     * 上传文件片，失败时按照重试策略重新上传
+     * @return {Promise<string>}            ETag 响应头
+     */
+    #uploadFilePart(bucketName: string, objectKey: string, filePath: string, uploadId: string, partId: number, startByte: number, endByte: number, onBytesRead?: (bytes: number) => void, options?: CommonOptions): Promise<string> {
+        // 每次重试都重新读取文件，并且撤销失败的那次上传报告的进度
+        return super.withRetry(async () => {
+            let attemptBytes = 0;
+            try {
+                return await this.#uploadFilePartOnce(bucketName, objectKey, filePath, uploadId, partId, startByte, endByte, onBytesRead ? (bytes) => {
+                    attemptBytes += bytes;
+                    onBytesRead(bytes);
+                } : undefined, options);
+            } catch (e) {
+                if (attemptBytes > 0) {
+                    onBytesRead?.(-attemptBytes);
+                }
+                throw e;
+            }
+        }, options?.signal);
+    }
+
+    async #uploadFilePartOnce(bucketName: string, objectKey: string, filePath: string, uploadId: string, partId: number, startByte: number, endByte: number, onBytesRead?: (bytes: number) => void, options?: CommonOptions): Promise<string> {
+        let file: Deno.FsFile | undefined;
+        let payloadStream: ReadableStream | undefined;
+
+        const BUF_LEN = 1024 * 64; // 64kB buffer
+        
+
+        const totalBytes = endByte - startByte;
+        let totalRead = 0;
+
+        try {
+            file = await Deno.open(filePath);
+            await file.seek(startByte, Deno.SeekMode.Start);
+            log(`${filePath} seek to ${startByte}`);
+            payloadStream = new ReadableStream({
+                start(_controller) {
+
+                },
+                async pull(controller) {
+                    // log(`total read: ${totalRead} from total bytes: ${totalBytes}`);
                     if (totalRead >= totalBytes) {
                         controller.close();
                         return;
@@ -946,31 +1893,23 @@ export class ObjectOperation extends Operation {
                     if (totalRead <= totalBytes) {
                         // log(`enqueue bytes: ${n}`);
                         controller.enqueue(buf.subarray(0, n!));
+                        onBytesRead?.(n!);
                     } else {
                         // 为什么会出现读取的比期望的更多？因为从文件中间开始读取，他有可能读取到了下一个分片的字节了，所以得把这部分字节砍掉
                         // log(`enqueue bytes: ${totalBytes - totalRead - n!}`);
                         controller.enqueue(buf.subarray(0, totalBytes - (totalRead - n!)));
+                        onBytesRead?.(totalBytes - (totalRead - n!));
                     }
                 },
                 type: "bytes"
             });
 
-            const requestConfig: RequestConfig = {
-                method: "PUT",
-                bucketName,
-                objectKey,
-                headers: {
-                    "content-length": `${totalBytes}`,
-                },
-                query: {
-                    partNumber: `${partId}`,
-                    uploadId,
-                },
-                body: payloadStream
-            };
-
-            const { headers } = await super.doRequest(requestConfig);
-            return headers["etag"];
+            const { etag } = await this.uploadPart(bucketName, objectKey, uploadId, partId, payloadStream, {
+                contentLength: totalBytes,
+                timeoutMs: options?.timeoutMs,
+                signal: options?.signal,
+            });
+            return etag;
         } catch(e) {
             throw e;
         } finally {
@@ -978,7 +1917,16 @@ export class ObjectOperation extends Operation {
         }
     }
 
-    async #completeMultipartUpload(bucketName: string, objectKey: string, uploadId: string, partResults: {partNumber: number, etag: string}[], options?: PutObjectOptions): Promise<void | string> {
+    /**
+     * 完成分片上传。`partResults` 需要按照分片号从小到大排列。
+     *
+     * 如果指定了 `callback`，那么返回的是 OSS 调用回调之后的响应内容。
+     */
+    async completeMultipartUpload(bucketName: string, objectKey: string, uploadId: string, partResults: CompletedPart[], options?: PutObjectOptions): Promise<CompleteMultipartUploadResult | string> {
+        if (isBlank(bucketName) || isBlank(objectKey) || isBlank(uploadId)) {
+            throw new ClientError("bucketName, objectKey and uploadId are required, can not be empty");
+        }
+
         const opt: PutObjectOptions = {};
         if (options?.callback) {
             opt.callback = options!.callback;
@@ -1024,17 +1972,259 @@ export class ObjectOperation extends Operation {
             query: {
                 uploadId,
             },
-            body: stream
+            body: stream,
+            timeoutMs: options?.timeoutMs,
+            signal: options?.signal,
         };
 
-        const result = await super.doRequest(requestConfig);
+        const { headers: responseHeaders, content } = await super.doRequest(requestConfig);
         if (options?.callback) {
-            return result.content;
+            return content!;
+        }
+
+        if (! content) {
+            throw new ClientError("empty resopnse content while complete multipart upload");
         }
+
+        const {
+            //@ts-ignore xml parser
+            Bucket: resultBucketName,
+
+            //@ts-ignore xml parser
+            Key: resultObjectKey,
+
+            //@ts-ignore xml parser
+            ETag: etag,
+
+            //@ts-ignore xml parser
+            Location: location
+        } = parseXml(content).CompleteMultipartUploadResult;
+
+        return {
+            bucketName: `${resultBucketName}`,
+            objectKey: `${resultObjectKey}`,
+            etag: `${etag}`,
+            location: `${location}`,
+            crc64: responseHeaders["x-oss-hash-crc64ecma"],
+            versionId: responseHeaders["x-oss-version-id"],
+        };
     }
 
     /**
-     * 分片上传大文件。尚未支持并发上传。
+     * 列出分片上传事件中已经上传的分片
+     */
+    async listParts(bucketName: string, objectKey: string, uploadId: string, query?: ListPartsQuery): Promise<ListPartsResult> {
+        if (isBlank(bucketName) || isBlank(objectKey) || isBlank(uploadId)) {
+            throw new ClientError("bucketName, objectKey and uploadId are required, can not be empty");
+        }
+
+        const params: Record<string, string | number> = {
+            uploadId,
+        };
+
+        const { timeoutMs, signal, ...listQuery } = Object.assign({}, query);
+        Object.entries(listQuery).forEach(([k, v]) => params[camelToKebab(k)] = v);
+
+        const requestConfig: RequestConfig = {
+            method: "GET",
+            bucketName,
+            objectKey,
+            query: params,
+            timeoutMs,
+            signal,
+        };
+
+        const { content } = await super.doRequest(requestConfig);
+        //@ts-ignore xml parser
+        const resultNode = parseXml(content!).ListPartsResult;
+
+        const parts: UploadedPart[] = [];
+
+        //@ts-ignore xml parser
+        if (resultNode.Part) {
+            //@ts-ignore xml parser
+            const partNodes = Array.isArray(resultNode.Part) ? resultNode.Part : [resultNode.Part];
+            //@ts-ignore xml parser
+            partNodes.forEach(n => {
+                parts.push({
+                    partNumber: n.PartNumber,
+                    lastModified: new Date(n.LastModified),
+                    etag: `${n.ETag}`,
+                    size: n.Size,
+                    crc64: n.HashCrc64ecma === undefined ? undefined : `${n.HashCrc64ecma}`,
+                });
+            });
+        }
+
+        const {
+            //@ts-ignore xml parser
+            Bucket: resultBucketName,
+
+            //@ts-ignore xml parser
+            Key: resultObjectKey,
+
+            //@ts-ignore xml parser
+            UploadId: resultUploadId,
+
+            //@ts-ignore xml parser
+            PartNumberMarker: partNumberMarker,
+
+            //@ts-ignore xml parser
+            NextPartNumberMarker: nextPartNumberMarker,
+
+            //@ts-ignore xml parser
+            MaxParts: maxParts,
+
+            //@ts-ignore xml parser
+            IsTruncated: isTruncated
+        } = resultNode;
+
+        return {
+            bucketName: `${resultBucketName}`,
+            objectKey: `${resultObjectKey}`,
+            uploadId: `${resultUploadId}`,
+            partNumberMarker,
+            nextPartNumberMarker,
+            maxParts,
+            isTruncated,
+            parts,
+        };
+    }
+
+    /**
+     * 读取断点续传的检查点文件。
+     * 如果文件不存在，或者记录的内容和本次上传不一致，返回 `undefined`
+     */
+    async #loadCheckpoint(checkpointPath: string, bucketName: string, objectKey: string, filePath: string, stat: Deno.FileInfo): Promise<MultipartUploadCheckpoint | undefined> {
+        let checkpoint: MultipartUploadCheckpoint;
+        try {
+            checkpoint = JSON.parse(await Deno.readTextFile(checkpointPath));
+        } catch (e) {
+            if (e instanceof Deno.errors.NotFound) {
+                return undefined;
+            }
+
+            if (e instanceof SyntaxError) {
+                log(`checkpoint ${checkpointPath} is not a valid JSON file, ignore it`);
+                return undefined;
+            }
+
+            throw e;
+        }
+
+        if (checkpoint.bucketName !== bucketName
+            || checkpoint.objectKey !== objectKey
+            || checkpoint.filePath !== filePath
+            || checkpoint.fileSize !== stat.size
+            || checkpoint.fileModifiedTime !== stat.mtime?.getTime()
+            || !checkpoint.uploadId
+            || !Array.isArray(checkpoint.parts)) {
+            log(`checkpoint ${checkpointPath} does not match the upload of ${filePath} to ${bucketName}/${objectKey}, ignore it`);
+            return undefined;
+        }
+
+        return checkpoint;
+    }
+
+    async #saveCheckpoint(checkpointPath: string, checkpoint: MultipartUploadCheckpoint): Promise<void> {
+        await Deno.writeTextFile(checkpointPath, JSON.stringify(checkpoint));
+    }
+
+    async #removeCheckpoint(checkpointPath: string): Promise<void> {
+        try {
+            await Deno.remove(checkpointPath);
+        } catch (e) {
+            if (!(e instanceof Deno.errors.NotFound)) {
+                throw e;
+            }
+        }
+    }
+
+    /**
+     * 取消分片上传，已经上传的分片会被删除
+     */
+    async abortMultipartUpload(bucketName: string, objectKey: string, uploadId: string, options?: CommonOptions): Promise<void> {
+        if (isBlank(bucketName) || isBlank(objectKey) || isBlank(uploadId)) {
+            throw new ClientError("bucketName, objectKey and uploadId are required, can not be empty");
+        }
+
+        const requestConfig: RequestConfig = {
+            method: "DELETE",
+            bucketName,
+            objectKey,
+            query: {
+                uploadId,
+            },
+            timeoutMs: options?.timeoutMs,
+            signal: options?.signal,
+        };
+
+        await super.doRequest(requestConfig);
+    }
+
+    /**
+     * 并发执行分片上传和分片拷贝的分片，结果按分片号的顺序存放在 `partResults` 中，已经有结果的分片不会再执行。
+     * 任意一个分片失败后不再开始新的分片，等待所有正在执行的分片结束之后抛出失败的原因，避免取消分片上传之后仍有分片写入
+     * @param {CompletedPart[]} partResults     分片结果，长度为分片数量
+     * @param {number} concurrency              同时执行的分片数量，默认为 `1`
+     * @param {Function} runPart                执行一个分片，返回 ETag
+     * @param {Function} onPartCompleted        一个分片执行完成之后调用
+     */
+    async #runParts(partResults: CompletedPart[], concurrency: number | undefined, runPart: (partIndex: number) => Promise<string>, onPartCompleted?: (partIndex: number) => Promise<void>, signal?: AbortSignal): Promise<void> {
+        const pendingPartIndexes: number[] = [];
+        for (let i = 0; i < partResults.length; i++) {
+            if (!partResults[i]) {
+                pendingPartIndexes.push(i);
+            }
+        }
+
+        const workerCount = Math.min(Math.max(1, Math.floor(concurrency ?? 1)), Math.max(1, pendingPartIndexes.length));
+        log(`${pendingPartIndexes.length} parts will be run, ${workerCount} parts concurrently`);
+
+        let failed = false;
+
+        const runPendingParts = async () => {
+            while (!failed && pendingPartIndexes.length > 0) {
+                const i = pendingPartIndexes.shift()!;
+                try {
+                    signal?.throwIfAborted();
+                    const etag = await runPart(i);
+                    partResults[i] = {
+                        partNumber: i + 1,
+                        etag,
+                    };
+                    await onPartCompleted?.(i);
+                } catch (e) {
+                    failed = true;
+                    throw e;
+                }
+            }
+        };
+
+        const settledResults = await Promise.allSettled(Array.from({ length: workerCount }, () => runPendingParts()));
+        const rejected = settledResults.find(r => r.status === "rejected") as PromiseRejectedResult | undefined;
+        if (rejected) {
+            throw rejected.reason;
+        }
+    }
+
+    /**
+     * 分片上传或分片拷贝失败之后取消分片上传事件，取消失败时只记录日志
+     * @return {Promise<boolean>} 是否取消成功
+     */
+    async #abortPartsUpload(bucketName: string, objectKey: string, uploadId: string, options?: CommonOptions): Promise<boolean> {
+        try {
+            // 调用者的 signal 可能已经取消了，所以这里不能再使用它
+            await this.abortMultipartUpload(bucketName, objectKey, uploadId, { timeoutMs: options?.timeoutMs });
+            return true;
+        } catch (e) {
+            log(`abort multipart upload ${uploadId} failed: ${e}`);
+            return false;
+        }
+    }
+
+    /**
+     * 分片上传大文件。通过 `options.concurrency` 设置同时上传的分片数量。
      * 如果指定了 `callback`，那么返回的是上传完毕之后的调用回调的响应内容。
      */
     async multipartUpload(bucketName: string, objectKey: string, filePath: string, options?: MultipartUploadOptions): Promise<string | void> {
@@ -1074,26 +2264,105 @@ export class ObjectOperation extends Operation {
             closeResource(inputFile);
             inputFile = undefined;
 
-            const uploadId = await this.#initMultipartUpload(bucketName, sanitizedObjectKey, options);
-            log(`multipart upload initialize: ${uploadId}`);
+            const checkpointPath = options?.checkpoint;
+            let checkpoint = checkpointPath
+                ? await this.#loadCheckpoint(checkpointPath, bucketName, sanitizedObjectKey, filePath, stat)
+                : undefined;
+
+            if (checkpoint) {
+                log(`multipart upload ${checkpoint.uploadId} resumed from checkpoint ${checkpointPath}, ${checkpoint.parts.length} parts already uploaded`);
+            } else {
+                const { uploadId } = await this.initiateMultipartUpload(bucketName, sanitizedObjectKey, options);
+                log(`multipart upload initialize: ${uploadId}`);
+
+                const { partCount, partSize, lastPartSize } = this.#buildPartConfig(stat.size, options?.partSize);
+                checkpoint = {
+                    bucketName,
+                    objectKey: sanitizedObjectKey,
+                    filePath,
+                    fileSize: stat.size,
+                    fileModifiedTime: stat.mtime?.getTime(),
+                    uploadId,
+                    partCount,
+                    partSize,
+                    lastPartSize,
+                    parts: [],
+                };
+
+                if (checkpointPath) {
+                    await this.#saveCheckpoint(checkpointPath, checkpoint);
+                }
+            }
 
-            const { partCount, partSize, lastPartSize } = this.#buildPartConfig(stat.size, options?.partSize);
+            const { uploadId, partCount, partSize, lastPartSize } = checkpoint;
             log(`multipart upload ${uploadId} will be split into ${partCount} parts, and ${partSize} bytes per part (last part size: ${lastPartSize})`);
 
-            const partResults = [];
-            for (let i = 0; i < partCount; i++) {
-                const startByte = i * partSize;
-                const endByte = startByte + (i === partCount - 1 ? lastPartSize : partSize);
-                const etag = await this.#uploadFilePart(bucketName, objectKey, filePath, uploadId, i + 1, startByte, endByte);
-                log(`multipart upload ${uploadId} part ${i + 1} uploaded with etag: ${etag}`);
-                partResults.push({
-                    partNumber: i + 1,
-                    etag: etag,
-                });
+            // 按分片号的顺序存放结果，以保证完成上传时提交的分片是有序的
+            const partResults: CompletedPart[] = new Array(partCount);
+            checkpoint.parts.forEach(p => partResults[p.partNumber - 1] = p);
+
+            const onProgress = options?.onProgress;
+            let completedParts = checkpoint.parts.length;
+            let transferredBytes = checkpoint.parts.reduce((acc, p) => acc + (p.partNumber === partCount ? lastPartSize : partSize), 0);
+            const reportProgress = () => onProgress?.({
+                transferredBytes,
+                totalBytes: stat.size,
+                completedParts,
+                totalParts: partCount,
+            });
+
+            // 多个分片并发完成时，保证检查点文件是依次写入的
+            let checkpointSaving = Promise.resolve();
+
+            try {
+                await this.#runParts(partResults, options?.concurrency, async (i) => {
+                    const startByte = i * partSize;
+                    const endByte = startByte + (i === partCount - 1 ? lastPartSize : partSize);
+                    const etag = await this.#uploadFilePart(bucketName, sanitizedObjectKey, filePath, uploadId, i + 1, startByte, endByte, onProgress ? (bytes) => {
+                        transferredBytes += bytes;
+                        reportProgress();
+                    } : undefined, options);
+                    log(`multipart upload ${uploadId} part ${i + 1} uploaded with etag: ${etag}`);
+                    return etag;
+                }, async (i) => {
+                    completedParts++;
+                    reportProgress();
+
+                    if (checkpointPath) {
+                        checkpoint!.parts.push(partResults[i]);
+                        checkpointSaving = checkpointSaving.then(() => this.#saveCheckpoint(checkpointPath, checkpoint!));
+                        await checkpointSaving;
+                    }
+                }, options?.signal);
+            } catch (reason) {
+                const cancelled = options?.signal?.aborted === true;
+
+                // 启用了断点续传时保留已上传的分片，以便下次调用时继续上传。
+                // 除非分片上传事件已经不存在了，这时检查点文件也就没有用了
+                if (checkpointPath && !(cancelled && options?.abortOnCancel)) {
+                    if (reason instanceof ClientError && reason.code === "NoSuchUpload") {
+                        await this.#removeCheckpoint(checkpointPath);
+                    }
+                    throw reason;
+                }
+
+                log(`multipart upload ${uploadId} ${cancelled ? "cancelled" : "failed"}, aborting`);
+                if (await this.#abortPartsUpload(bucketName, sanitizedObjectKey, uploadId, options) && checkpointPath) {
+                    await this.#removeCheckpoint(checkpointPath);
+                }
+                throw reason;
             }
 
             log(`completing multipart upload ${uploadId}`);
-            return await this.#completeMultipartUpload(bucketName, objectKey, uploadId, partResults, options);
+            const result = await this.completeMultipartUpload(bucketName, sanitizedObjectKey, uploadId, partResults, options);
+
+            if (checkpointPath) {
+                await this.#removeCheckpoint(checkpointPath);
+            }
+
+            if (typeof result === "string") {
+                return result;
+            }
         } catch (e) {
             if (e instanceof Deno.errors.NotFound) {
                 throw new ClientError(`can not find file ${filePath}`);
@@ -1109,6 +2378,130 @@ export class ObjectOperation extends Operation {
         }
     }
 
+    /**
+     * 重命名 Object。OSS 不支持直接重命名，先将 Object 拷贝为 `targetKey` 然后删除 `sourceKey`，
+     * 因此和 `copyObject` 一样不能超过 1GB。
+     */
+    async renameObject(bucketName: string, sourceKey: string, targetKey: string, options?: RenameObjectOptions): Promise<void> {
+        if (isBlank(bucketName) || isBlank(sourceKey) || isBlank(targetKey)) {
+            throw new ClientError("bucketName, sourceKey and targetKey are required, can not be empty");
+        }
+
+        if (sourceKey === targetKey) {
+            return;
+        }
+
+        await this.copyObject(bucketName, targetKey, { bucketName, objectKey: sourceKey }, {
+            forbidOverwrite: options?.forbidOverwrite,
+            timeoutMs: options?.timeoutMs,
+            signal: options?.signal,
+        });
+
+        await this.deleteObject(bucketName, sourceKey, {
+            timeoutMs: options?.timeoutMs,
+            signal: options?.signal,
+        });
+    }
+
+    /**
+     * 使用分片上传在服务端拷贝大 Object，每个分片通过 UploadPartCopy 拷贝源 Object 的一段字节范围，数据不会经过本地。
+     * 源 Object 可以在同一地域的其他 Bucket 中。
+     */
+    async multipartCopy(bucketName: string, objectKey: string, source: CopySource, options?: MultipartCopyOptions): Promise<CompleteMultipartUploadResult> {
+        if (isBlank(bucketName) || isBlank(objectKey)) {
+            throw new ClientError("bucketName and objectKey are required, can not be empty");
+        }
+
+        if (isBlank(source?.bucketName) || isBlank(source?.objectKey)) {
+            throw new ClientError("source bucketName and objectKey are required, can not be empty");
+        }
+
+        const {
+            partSize: userPartSize,
+            concurrency: userConcurrency,
+            onProgress,
+            copySourceIfMatch,
+            copySourceIfNoneMatch,
+            copySourceIfUnmodifiedSince,
+            copySourceIfModifiedSince,
+            ...putOptions
+        } = Object.assign({}, options);
+
+        const conditions: CopySourceConditions = {
+            copySourceIfMatch,
+            copySourceIfNoneMatch,
+            copySourceIfUnmodifiedSince,
+            copySourceIfModifiedSince,
+        };
+
+        const sourceHeaders = await this.headObject(source.bucketName, source.objectKey, {
+            versionId: source.versionId,
+            timeoutMs: options?.timeoutMs,
+            signal: options?.signal,
+        });
+
+        const sourceSize = parseInt(`${sourceHeaders["content-length"]}`);
+        if (isNaN(sourceSize) || sourceSize === 0) {
+            throw new ClientError(`source object ${source.bucketName}/${source.objectKey} is 0-length, use copyObject instead`);
+        }
+
+        if (!putOptions.contentType && sourceHeaders["content-type"]) {
+            putOptions.contentType = sourceHeaders["content-type"];
+        }
+
+        const { partCount, partSize, lastPartSize } = this.#buildPartConfig(sourceSize, userPartSize);
+        const { uploadId } = await this.initiateMultipartUpload(bucketName, objectKey, putOptions);
+        log(`multipart copy ${uploadId} will be split into ${partCount} parts, and ${partSize} bytes per part (last part size: ${lastPartSize})`);
+
+        const partResults: CompletedPart[] = new Array(partCount);
+        let completedParts = 0;
+        let transferredBytes = 0;
+
+        try {
+            await this.#runParts(partResults, userConcurrency, async (i) => {
+                const start = i * partSize;
+                const size = i === partCount - 1 ? lastPartSize : partSize;
+                const { etag } = await this.uploadPartCopy(bucketName, objectKey, uploadId, i + 1, source, {
+                    ...conditions,
+                    range: {
+                        start,
+                        end: start + size - 1,
+                    },
+                    timeoutMs: options?.timeoutMs,
+                    signal: options?.signal,
+                });
+                log(`multipart copy ${uploadId} part ${i + 1} copied with etag: ${etag}`);
+
+                completedParts++;
+                transferredBytes += size;
+                onProgress?.({
+                    transferredBytes,
+                    totalBytes: sourceSize,
+                    completedParts,
+                    totalParts: partCount,
+                });
+                return etag;
+            }, undefined, options?.signal);
+        } catch (reason) {
+            log(`multipart copy ${uploadId} failed, aborting`);
+            await this.#abortPartsUpload(bucketName, objectKey, uploadId, options);
+            throw reason;
+        }
+
+        log(`completing multipart copy ${uploadId}`);
+        const result = await this.completeMultipartUpload(bucketName, objectKey, uploadId, partResults, {
+            timeoutMs: options?.timeoutMs,
+            signal: options?.signal,
+        });
+
+        // 没有设置 callback，不会返回回调的内容
+        if (typeof result === "string") {
+            throw new ClientError(`unexpected response content while complete multipart copy ${uploadId}`);
+        }
+
+        return result;
+    }
+
 }
 
 
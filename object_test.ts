@@ -0,0 +1,55 @@
+import { assertEquals } from "std/assert/mod.ts";
+
+import { ObjectOperation } from "./object.ts";
+import { clientConfig, mockFetch } from "./test_helper.ts";
+
+Deno.test("multipartCopy without copy source conditions", async () => {
+    const partRanges: string[] = [];
+    const conditionHeaders: string[] = [];
+
+    const restoreFetch = mockFetch(request => {
+        const url = new URL(request.url);
+
+        if (request.method === "HEAD") {
+            return new Response(null, {
+                headers: {
+                    "content-length": "250",
+                    "content-type": "text/plain",
+                },
+            });
+        }
+
+        if (request.method === "POST" && url.searchParams.has("uploads")) {
+            return new Response("<InitiateMultipartUploadResult><Bucket>target-bucket</Bucket><Key>target.txt</Key><UploadId>test-upload-id</UploadId></InitiateMultipartUploadResult>");
+        }
+
+        if (request.method === "PUT") {
+            partRanges.push(`${request.headers.get("x-oss-copy-source-range")}`);
+            request.headers.forEach((_v, k) => {
+                if (k.startsWith("x-oss-copy-source-if-")) {
+                    conditionHeaders.push(k);
+                }
+            });
+
+            return new Response(`<CopyPartResult><LastModified>2024-01-01T00:00:00.000Z</LastModified><ETag>"etag-${url.searchParams.get("partNumber")}"</ETag></CopyPartResult>`);
+        }
+
+        return new Response(`<CompleteMultipartUploadResult><Location>https://target-bucket.oss-cn-hangzhou.aliyuncs.com/target.txt</Location><Bucket>target-bucket</Bucket><Key>target.txt</Key><ETag>"complete-etag"</ETag></CompleteMultipartUploadResult>`);
+    });
+
+    try {
+        const objectOperation = new ObjectOperation(clientConfig);
+        const result = await objectOperation.multipartCopy("target-bucket", "target.txt", {
+            bucketName: "source-bucket",
+            objectKey: "source.txt",
+        }, {
+            partSize: 100,
+        });
+
+        assertEquals(partRanges, ["bytes=0-99", "bytes=100-199", "bytes=200-249"]);
+        assertEquals(conditionHeaders, []);
+        assertEquals(result.etag, `"complete-etag"`);
+    } finally {
+        restoreFetch();
+    }
+});
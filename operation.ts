@@ -1,20 +1,35 @@
 import { crypto } from "std/crypto/mod.ts";
+import { encodeBase64 } from "std/encoding/base64.ts";
 import { encodeHex } from "std/encoding/hex.ts";
 
 
 import { hmac } from "hmac/mod.ts";
 
-import { ClientConfig, RequestConfig, ClientError, ResponseResult } from "./common.ts";
-import { ossDateString, log } from "./helper.ts";
+import { ClientConfig, RequestConfig, ClientError, ResponseResult, RetryOptions } from "./common.ts";
+import { ossDateString, log, sleep } from "./helper.ts";
 
 
 const SIG_VERSION = "OSS4-HMAC-SHA256";
+
+const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+    maxAttempts: 3,
+    baseDelayMs: 200,
+    maxDelayMs: 10000,
+    jitter: true,
+    retryableStatusCodes: [500, 502, 503, 504],
+    retryableErrorCodes: ["RequestTimeTooSkewed", "InternalError", "ServiceUnavailable", "RequestTimeout"],
+};
 /**
  * OSS operation
  */
 export class Operation {
     #clientConfig;
 
+    /**
+     * Errors thrown by fetch on network failures, all other `TypeError`s are not retryable
+     */
+    #networkErrors = new WeakSet<TypeError>();
+
     constructor(config: ClientConfig) {
         this.#clientConfig = config;
     }
@@ -23,6 +38,10 @@ export class Operation {
         return this.#clientConfig;
     }
 
+    get #retryOptions(): Required<RetryOptions> {
+        return Object.assign({}, DEFAULT_RETRY_OPTIONS, this.#clientConfig.retry);
+    }
+
     /**
      * Build canonical uri for signature
      * @param  {string} bucketName 
@@ -49,12 +68,36 @@ export class Operation {
         return "/";
     }
 
+    /**
+     * Build the host name to send request.
+     * With cname enabled, the endpoint is a custom domain bound to the bucket, so the bucket name is not prepended.
+     * With path style enabled, the bucket name goes to the request uri instead of the host name.
+     * @param  {string} bucketName
+     * @return {string}
+     */
+    #buildHost(bucketName?: string): string {
+        const { endpoint, cname, pathStyle } = this.#clientConfig;
+        if (cname || pathStyle || !bucketName) {
+            return endpoint;
+        }
+
+        return `${bucketName}.${endpoint}`;
+    }
+
     /**
      * Build the uri to send request
+     * @param  {string} bucketName
      * @param  {string} objectKey  
      * @return {string}
      */
-    #buildRequestUri(objectKey?: string): string {
+    #buildRequestUri(bucketName?: string, objectKey?: string): string {
+        const { cname, pathStyle } = this.#clientConfig;
+
+        // path style 的请求地址和 Canonical URI 的格式是一样的：/examplebucket/exampleobject
+        if (pathStyle && !cname && bucketName) {
+            return this.#buildCanonicalUri(bucketName, objectKey);
+        }
+
         if (objectKey) {
             const encodedObjectKey = objectKey.split("/").map(s => encodeURIComponent(s)).join("/");
             return `/${encodedObjectKey}`;
@@ -96,10 +139,11 @@ export class Operation {
     }
 
     protected async generatePresignedUrl(requestConfig: RequestConfig): Promise<string> {
-        const { region, endpoint, accessKeyId, accessKeySecret, secure } = this.#clientConfig;
+        const { region, secure, credentialsProvider } = this.#clientConfig;
         const { method, bucketName, objectKey, headers, query } = requestConfig;
+        const { accessKeyId, accessKeySecret, securityToken } = await credentialsProvider.getCredentials();
 
-        const domainName = `${bucketName ? bucketName : ""}${bucketName ? "." : ""}${endpoint}`;
+        const domainName = this.#buildHost(bucketName);
 
         const d = new Date();
         const dateTimeString = ossDateString(d);
@@ -119,10 +163,14 @@ export class Operation {
         fullQuery["x-oss-signature-version"] = SIG_VERSION;
         fullQuery["x-oss-credential"] = `${accessKeyId}/${dateString}/${region}/oss/aliyun_v4_request`;
         fullQuery["x-oss-date"] = dateTimeString;
+
+        if (securityToken) {
+            fullQuery["x-oss-security-token"] = securityToken;
+        }
         // fullQuery["x-oss-additional-headers"] = "host";
 
         const canonicalUri = this.#buildCanonicalUri(bucketName, objectKey);
-        const requestUri = this.#buildRequestUri(objectKey);
+        const requestUri = this.#buildRequestUri(bucketName, objectKey);
         const canonicalQuery = this.#buildCanonicalQueryString(fullQuery);
         const canonicalHeaders = this.#buildCanonicalHeaders(headersToSign);
         // const additionalHeaders = Object.keys(headersToSign).map(k => k.toLowerCase()).sort((k1, k2) => k1.localeCompare(k2)).join(";");
@@ -172,10 +220,11 @@ export class Operation {
     }
 
     protected async sendRequest(requestConfig: RequestConfig): Promise<Response> {
-        const { region, endpoint, accessKeyId, accessKeySecret, secure } = this.#clientConfig;
+        const { region, secure, credentialsProvider } = this.#clientConfig;
         const { method, bucketName, objectKey, headers, query, body } = requestConfig;
+        const { accessKeyId, accessKeySecret, securityToken } = await credentialsProvider.getCredentials();
 
-        const domainName = `${bucketName ? bucketName : ""}${bucketName ? "." : ""}${endpoint}`;
+        const domainName = this.#buildHost(bucketName);
 
         const d = new Date();
         const dateTimeString = ossDateString(d);
@@ -187,6 +236,11 @@ export class Operation {
             "x-oss-content-sha256": "UNSIGNED-PAYLOAD",
             "x-oss-date": dateTimeString,
         }, headers);
+
+        // the security token is signed as other `x-oss-` headers
+        if (securityToken) {
+            allHeaders["x-oss-security-token"] = securityToken;
+        }
         
         if (method === 'PUT') {
             if (!body) {
@@ -202,7 +256,7 @@ export class Operation {
         }).forEach(([k, v]) => headersToSign[k] = v);
 
         const canonicalUri = this.#buildCanonicalUri(bucketName, objectKey);
-        const requestUri = this.#buildRequestUri(objectKey);
+        const requestUri = this.#buildRequestUri(bucketName, objectKey);
         const canonicalQuery = this.#buildCanonicalQueryString(query);
         const canonicalHeaders = this.#buildCanonicalHeaders(headersToSign);
         const additionalHeaders = Object.keys(headersToSign).map(k => k.toLowerCase()).sort((k1, k2) => k1.localeCompare(k2)).join(";");
@@ -265,46 +319,164 @@ export class Operation {
             requestInit.body = body;
         }
 
-        return fetch(fullUrl, requestInit);
-    }
+        const signals: AbortSignal[] = [];
+        if (requestConfig.signal) {
+            signals.push(requestConfig.signal);
+        }
+
+        // the timeout of a single call takes precedence over the timeout of the client
+        const timeoutMs = requestConfig.timeoutMs ?? this.#clientConfig.timeoutMs;
+        if (timeoutMs !== undefined && Number.isFinite(timeoutMs) && timeoutMs > 0) {
+            signals.push(AbortSignal.timeout(timeoutMs));
+        }
+
+        if (signals.length > 0) {
+            requestInit.signal = signals.length === 1 ? signals[0] : AbortSignal.any(signals);
+        }
+
+        // building the request throws `TypeError` on invalid url or headers, which is not worth another attempt
+        const request = new Request(fullUrl, requestInit);
 
-    protected async doRequest(requestConfig: RequestConfig): Promise<ResponseResult> {
         try {
-            const response = await this.sendRequest(requestConfig);
-            log(`< resopnse status code: ${response.status}`);
-            const status = response.status;
-            if (status >= 500) {
-                throw new ClientError(`aliyun oss server response status: ${status}`);
+            return await fetch(request);
+        } catch (e) {
+            // fetch rejects with `TypeError` on network failures
+            if (e instanceof TypeError) {
+                this.#networkErrors.add(e);
             }
 
-            const content = await response.text();
-            log("\n---- begin of response content -----");
-            log(content);
-            log("---- end of response content ----\n");
+            throw e;
+        }
+    }
+
+    /**
+     * Whether the error is a transient failure that worth another attempt
+     */
+    #isRetryableError(e: unknown): boolean {
+        const { retryableStatusCodes, retryableErrorCodes } = this.#retryOptions;
+
+        if (e instanceof ClientError) {
+            return (e.status !== undefined && retryableStatusCodes.includes(e.status))
+                || (e.code !== undefined && retryableErrorCodes.includes(e.code));
+        }
+
+        return (e instanceof TypeError && this.#networkErrors.has(e))
+            || e instanceof Deno.errors.ConnectionReset
+            || e instanceof Deno.errors.ConnectionAborted
+            || e instanceof Deno.errors.TimedOut
+            || e instanceof Deno.errors.UnexpectedEof;
+    }
 
-            if (300 <= status && status < 500) {
-                if (content) {
-                    throw ClientError.fromResponseContent(content);
-                } else {
-                    throw new ClientError(`Status code is not OK ${status}`, undefined, undefined, undefined, undefined, undefined, undefined, status);
+    /**
+     * Run `fn` and run it again with exponential backoff if it fails with a retryable error.
+     * `fn` must build everything it sends (e.g. request body streams) on each call.
+     * No more attempts are made once `signal` is aborted.
+     */
+    protected async withRetry<T>(fn: (attempt: number) => Promise<T>, signal?: AbortSignal): Promise<T> {
+        const { maxAttempts, baseDelayMs, maxDelayMs, jitter } = this.#retryOptions;
+
+        for (let attempt = 1; ; attempt++) {
+            try {
+                return await fn(attempt);
+            } catch (e) {
+                if (attempt >= maxAttempts || signal?.aborted || !this.#isRetryableError(e)) {
+                    throw e;
                 }
+
+                const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+                const waitMs = jitter ? Math.floor(Math.random() * delay) : delay;
+                log(`attempt ${attempt} failed: ${e}, retry in ${waitMs}ms`);
+                await sleep(waitMs, signal);
             }
+        }
+    }
 
-            const responseHeaders: Record<string, string> = {};
-            response.headers.forEach((v, k) => {
-                log(`< headers: ${k}: ${v}`);
-                responseHeaders[k] = v;
-            });
-            
-            return {
-                headers: responseHeaders,
-                content,
-            };
-        } catch (e) {
-            console.error(e);
-            throw e;
+    /**
+     * Build error from the response of a failed request
+     */
+    protected buildResponseError(status: number, content?: string): ClientError {
+        let error: ClientError | undefined;
+        if (content) {
+            try {
+                error = ClientError.fromResponseContent(content);
+            } catch (_e) {
+                // the content is not an OSS error document, e.g. the response of a gateway
+            }
         }
+
+        if (!error) {
+            error = new ClientError(`Status code is not OK ${status}`);
+        }
+
+        error.status = status;
+        return error;
     }
 
-}
+    async #doRequestOnce(requestConfig: RequestConfig): Promise<ResponseResult> {
+        const response = await this.sendRequest(requestConfig);
+        log(`< resopnse status code: ${response.status}`);
+        const status = response.status;
+
+        const content = await response.text();
+        log("\n---- begin of response content -----");
+        log(content);
+        log("---- end of response content ----\n");
+
+        if (300 <= status) {
+            throw this.buildResponseError(status, content);
+        }
+
+        const responseHeaders: Record<string, string> = {};
+        response.headers.forEach((v, k) => {
+            log(`< headers: ${k}: ${v}`);
+            responseHeaders[k] = v;
+        });
+        
+        return {
+            headers: responseHeaders,
+            content,
+        };
+    }
+
+    async #doContentRequest(requestConfig: RequestConfig, content: string, contentType: string): Promise<ResponseResult> {
+        log("---- begin of request content ----");
+        log(content);
+        log("---- end of request content ----");
+
+        const data = (new TextEncoder()).encode(content);
+        const headers: Record<string, string> = Object.assign({}, requestConfig.headers, {
+            "content-type": contentType,
+            "content-length": `${data.length}`,
+            "content-md5": encodeBase64(await crypto.subtle.digest("MD5", data)),
+        });
+
+        return this.doRequest(Object.assign({}, requestConfig, { headers, body: data }));
+    }
+
+    /**
+     * Send request with XML content as the body. `content-type`, `content-length` and `content-md5` headers are set automatically.
+     */
+    protected doXmlRequest(requestConfig: RequestConfig, xmlContent: string): Promise<ResponseResult> {
+        return this.#doContentRequest(requestConfig, xmlContent, "application/xml");
+    }
+
+    /**
+     * Send request with JSON content as the body. `content-type`, `content-length` and `content-md5` headers are set automatically.
+     */
+    protected doJsonRequest(requestConfig: RequestConfig, jsonContent: string): Promise<ResponseResult> {
+        return this.#doContentRequest(requestConfig, jsonContent, "application/json");
+    }
+
+    protected doRequest(requestConfig: RequestConfig): Promise<ResponseResult> {
+        const { method, body } = requestConfig;
+
+        // stream body can only be consumed once, and non-idempotent requests must not be sent twice
+        const idempotent = ["GET", "HEAD", "PUT", "DELETE", "OPTIONS"].includes(method) && !(body instanceof ReadableStream);
+        if (!idempotent) {
+            return this.#doRequestOnce(requestConfig);
+        }
+
+        return this.withRetry(() => this.#doRequestOnce(requestConfig), requestConfig.signal);
+    }
 
+}
\ No newline at end of file
@@ -4,7 +4,8 @@
  * 
  */
 
-import { ClientConfig, HttpMethod } from "./common.ts";
+import { Acl, ClientConfig, CommonOptions, HttpMethod, ObjectAcl, RetryOptions } from "./common.ts";
+import { CredentialsProvider, StaticCredentialsProvider } from "./credentials.ts";
 
 import { 
     Bucket, 
@@ -12,7 +13,23 @@ import {
     ListBucketsOptions, 
     BucketInfo, 
     ListObjectsQuery, 
-    ListObjectsResult 
+    ListObjectsResult,
+    ListMultipartUploadsQuery,
+    ListMultipartUploadsResult,
+    MultipartUpload,
+    PutBucketOptions,
+    BucketStat,
+    GetBucketAclResult,
+    LifecycleRule,
+    CorsConfiguration,
+    BucketVersioningStatus,
+    ListObjectVersionsQuery,
+    ListObjectVersionsResult,
+    BucketPolicy,
+    RefererConfiguration,
+    WebsiteConfiguration,
+    BucketLoggingConfiguration,
+    BucketEncryptionRule
 } from "./bucket.ts";
 
 import { 
@@ -25,9 +42,32 @@ import {
     SignatureOptions, 
     GetObjectMetaOptions, 
     GetObjectMetaResult,
-    MultipartUploadOptions
+    MultipartUploadOptions,
+    InitiateMultipartUploadResult,
+    UploadPartOptions,
+    UploadPartResult,
+    CopySource,
+    UploadPartCopyOptions,
+    UploadPartCopyResult,
+    CompletedPart,
+    CompleteMultipartUploadResult,
+    ListPartsQuery,
+    ListPartsResult,
+    ObjectAclOptions,
+    GetObjectAclResult,
+    ObjectTaggingOptions,
+    CopyObjectOptions,
+    CopyObjectResult,
+    MultipartCopyOptions,
+    RenameObjectOptions,
+    MovePrefixOptions,
+    MovePrefixResult,
+    AppendObjectOptions,
+    AppendObjectResult
 } from "./object.ts";
 
+import { PrefixOperation } from "./prefix.ts";
+
 
 /**
  * Options for oss client
@@ -40,30 +80,49 @@ export interface ClientOptions {
 
     /**
      * Use cname instead of aliyun regular endpoint. default value is `false`.
+     *
+     * With cname enabled, `endpoint` should be the custom domain bound to the bucket, e.g. `static.example.com`,
+     * and requests are sent to the custom domain directly without the bucket name prefix.
      */
     cname?: boolean;
 
     /**
-     * Operation timeout settings in milliseconds. If this property is left `undefined` or set to invalid number, request will no be timeout.
+     * Use path style addressing: requests are sent to `endpoint/bucket/object` instead of `bucket.endpoint/object`.
+     * default value is `false`.
+     *
+     * It is useful for local OSS emulators and IP based private endpoints, e.g. `localhost:9000` or `10.0.0.1`.
+     * It is ignored when `cname` is enabled.
+     */
+    pathStyle?: boolean;
+
+    /**
+     * Request timeout settings in milliseconds. If this property is left `undefined` or set to invalid number, request will no be timeout.
+     * It can be overridden by the `timeoutMs` option of each call.
      */
     timeoutMs?: number;
+
+    /**
+     * Retry policy for failed requests. By default a failed request is attempted at most 3 times.
+     */
+    retry?: RetryOptions;
 }
 
 export class OssClient {
     #region: string;
     #endpoint: string;
-    #accessKeyId: string;
-    #accessKeySecret: string;
+    #credentialsProvider: CredentialsProvider;
     
     #options: ClientOptions;
 
     #defaultOptions: ClientOptions = {
         secure: true,
         cname: false,
+        pathStyle: false,
     };
 
     #bucketOperations: BucketOperation;
     #objectOperations: ObjectOperation;
+    #prefixOperations: PrefixOperation;
 
 
     /**
@@ -78,36 +137,48 @@ export class OssClient {
      * @param {string}        accessKeySecret 
      * @param {ClientOptions} options         
      */
-    constructor(region: string, endpoint: string, accessKeyId: string, accessKeySecret: string, options?: ClientOptions) {
+    constructor(region: string, endpoint: string, accessKeyId: string, accessKeySecret: string, options?: ClientOptions);
+
+    /**
+     * Constructor for OssClient with a credentials provider, e.g. `StsCredentialsProvider` for STS temporary credentials.
+     * 
+     * @param {string}              region
+     * @param {string}              endpoint       
+     * @param {CredentialsProvider} credentialsProvider     
+     * @param {ClientOptions}       options         
+     */
+    constructor(region: string, endpoint: string, credentialsProvider: CredentialsProvider, options?: ClientOptions);
+
+    constructor(region: string, endpoint: string, credentials: string | CredentialsProvider, accessKeySecretOrOptions?: string | ClientOptions, options?: ClientOptions) {
         this.#region = region;
         this.#endpoint = endpoint;
-        this.#accessKeyId = accessKeyId;
-        this.#accessKeySecret = accessKeySecret;
+
+        if (typeof credentials === "string") {
+            this.#credentialsProvider = new StaticCredentialsProvider(credentials, accessKeySecretOrOptions as string);
+        } else {
+            this.#credentialsProvider = credentials;
+            options = accessKeySecretOrOptions as ClientOptions | undefined;
+        }
+
         this.#options = Object.assign({}, this.#defaultOptions, options);
 
-        const clientConfig = {
-            region: this.#region,
-            endpoint: this.#endpoint,
-            accessKeyId: this.#accessKeyId,
-            accessKeySecret: this.#accessKeySecret,
-            secure: this.#defaultOptions.secure,
-            cname: this.#defaultOptions.cname,
-            timeoutMs: this.#defaultOptions.timeoutMs
-        };
+        const clientConfig = this.#getClientConfig();
         
         this.#bucketOperations = new BucketOperation(clientConfig);
         this.#objectOperations = new ObjectOperation(clientConfig);
+        this.#prefixOperations = new PrefixOperation(this.#bucketOperations, this.#objectOperations);
     }
 
     #getClientConfig(): ClientConfig {
         return {
             region: this.#region,
             endpoint: this.#endpoint,
-            accessKeyId: this.#accessKeyId,
-            accessKeySecret: this.#accessKeySecret,
-            secure: this.#defaultOptions.secure,
-            cname: this.#defaultOptions.cname,
-            timeoutMs: this.#defaultOptions.timeoutMs
+            credentialsProvider: this.#credentialsProvider,
+            secure: this.#options.secure,
+            cname: this.#options.cname,
+            pathStyle: this.#options.pathStyle,
+            timeoutMs: this.#options.timeoutMs,
+            retry: this.#options.retry,
         };
     }
 
@@ -119,20 +190,258 @@ export class OssClient {
     }
     
     /* List all buckets. If there are so many buckets, the client will request multiple times to get complete bucket list */
-    listAllBuckets(): Promise<Bucket[]> {
-        return this.#bucketOperations.listAllBuckets();
+    listAllBuckets(options?: CommonOptions): Promise<Bucket[]> {
+        return this.#bucketOperations.listAllBuckets(options);
+    }
+
+    getBucketInfo(bucketName: string, options?: CommonOptions): Promise<BucketInfo> {
+        return this.#bucketOperations.getBucketInfo(bucketName, options);
+    }
+
+    /**
+     * 创建 Bucket
+     */
+    putBucket(bucketName: string, options?: PutBucketOptions): Promise<void> {
+        return this.#bucketOperations.putBucket(bucketName, options);
+    }
+
+    /**
+     * 删除 Bucket。Bucket 必须是空的
+     */
+    deleteBucket(bucketName: string, options?: CommonOptions): Promise<void> {
+        return this.#bucketOperations.deleteBucket(bucketName, options);
+    }
+
+    /**
+     * 获取 Bucket 所在的地域，例如：`oss-cn-hangzhou`
+     */
+    getBucketLocation(bucketName: string, options?: CommonOptions): Promise<string> {
+        return this.#bucketOperations.getBucketLocation(bucketName, options);
+    }
+
+    /**
+     * 获取 Bucket 的存储容量以及文件（Object）数量
+     */
+    getBucketStat(bucketName: string, options?: CommonOptions): Promise<BucketStat> {
+        return this.#bucketOperations.getBucketStat(bucketName, options);
+    }
+
+    /**
+     * 获取 Bucket 的访问权限
+     */
+    getBucketAcl(bucketName: string, options?: CommonOptions): Promise<GetBucketAclResult> {
+        return this.#bucketOperations.getBucketAcl(bucketName, options);
+    }
+
+    /**
+     * 设置 Bucket 的访问权限
+     */
+    putBucketAcl(bucketName: string, acl: Acl, options?: CommonOptions): Promise<void> {
+        return this.#bucketOperations.putBucketAcl(bucketName, acl, options);
+    }
+
+    /**
+     * 设置 Bucket 的生命周期规则，会覆盖已有的全部规则
+     */
+    putBucketLifecycle(bucketName: string, rules: LifecycleRule[], options?: CommonOptions): Promise<void> {
+        return this.#bucketOperations.putBucketLifecycle(bucketName, rules, options);
+    }
+
+    /**
+     * 获取 Bucket 的生命周期规则
+     */
+    getBucketLifecycle(bucketName: string, options?: CommonOptions): Promise<LifecycleRule[]> {
+        return this.#bucketOperations.getBucketLifecycle(bucketName, options);
+    }
+
+    /**
+     * 删除 Bucket 的全部生命周期规则
+     */
+    deleteBucketLifecycle(bucketName: string, options?: CommonOptions): Promise<void> {
+        return this.#bucketOperations.deleteBucketLifecycle(bucketName, options);
+    }
+
+    /**
+     * 设置 Bucket 的跨域资源共享规则，会覆盖已有的全部规则
+     */
+    putBucketCors(bucketName: string, config: CorsConfiguration, options?: CommonOptions): Promise<void> {
+        return this.#bucketOperations.putBucketCors(bucketName, config, options);
+    }
+
+    /**
+     * 获取 Bucket 的跨域资源共享规则
+     */
+    getBucketCors(bucketName: string, options?: CommonOptions): Promise<CorsConfiguration> {
+        return this.#bucketOperations.getBucketCors(bucketName, options);
+    }
+
+    /**
+     * 删除 Bucket 的全部跨域资源共享规则
+     */
+    deleteBucketCors(bucketName: string, options?: CommonOptions): Promise<void> {
+        return this.#bucketOperations.deleteBucketCors(bucketName, options);
+    }
+
+    /**
+     * 设置 Bucket 的版本控制状态
+     */
+    putBucketVersioning(bucketName: string, status: BucketVersioningStatus, options?: CommonOptions): Promise<void> {
+        return this.#bucketOperations.putBucketVersioning(bucketName, status, options);
+    }
+
+    /**
+     * 获取 Bucket 的版本控制状态。从未开启过版本控制的 Bucket 返回 `undefined`
+     */
+    getBucketVersioning(bucketName: string, options?: CommonOptions): Promise<BucketVersioningStatus | undefined> {
+        return this.#bucketOperations.getBucketVersioning(bucketName, options);
+    }
+
+    /**
+     * 列出 Bucket 中 Object 的全部版本，包括删除标记
+     */
+    listObjectVersions(bucketName: string, query?: ListObjectVersionsQuery): Promise<ListObjectVersionsResult> {
+        return this.#bucketOperations.listObjectVersions(bucketName, query);
+    }
+
+    /**
+     * 设置 Bucket Policy，会覆盖已有的策略
+     */
+    putBucketPolicy(bucketName: string, policy: BucketPolicy, options?: CommonOptions): Promise<void> {
+        return this.#bucketOperations.putBucketPolicy(bucketName, policy, options);
+    }
+
+    /**
+     * 获取 Bucket Policy。Bucket 没有设置策略时抛出 ClientError, code = `NoSuchBucketPolicy`
+     */
+    getBucketPolicy(bucketName: string, options?: CommonOptions): Promise<BucketPolicy> {
+        return this.#bucketOperations.getBucketPolicy(bucketName, options);
+    }
+
+    /**
+     * 删除 Bucket Policy
+     */
+    deleteBucketPolicy(bucketName: string, options?: CommonOptions): Promise<void> {
+        return this.#bucketOperations.deleteBucketPolicy(bucketName, options);
+    }
+
+    /**
+     * 设置 Bucket 的防盗链配置
+     */
+    putBucketReferer(bucketName: string, config: RefererConfiguration, options?: CommonOptions): Promise<void> {
+        return this.#bucketOperations.putBucketReferer(bucketName, config, options);
+    }
+
+    /**
+     * 获取 Bucket 的防盗链配置
+     */
+    getBucketReferer(bucketName: string, options?: CommonOptions): Promise<RefererConfiguration> {
+        return this.#bucketOperations.getBucketReferer(bucketName, options);
+    }
+
+    /**
+     * 设置 Bucket 的静态网站托管配置
+     */
+    putBucketWebsite(bucketName: string, config: WebsiteConfiguration, options?: CommonOptions): Promise<void> {
+        return this.#bucketOperations.putBucketWebsite(bucketName, config, options);
+    }
+
+    /**
+     * 获取 Bucket 的静态网站托管配置
+     */
+    getBucketWebsite(bucketName: string, options?: CommonOptions): Promise<WebsiteConfiguration> {
+        return this.#bucketOperations.getBucketWebsite(bucketName, options);
+    }
+
+    /**
+     * 关闭 Bucket 的静态网站托管
+     */
+    deleteBucketWebsite(bucketName: string, options?: CommonOptions): Promise<void> {
+        return this.#bucketOperations.deleteBucketWebsite(bucketName, options);
+    }
+
+    /**
+     * 开启 Bucket 的访问日志
+     */
+    putBucketLogging(bucketName: string, config: BucketLoggingConfiguration, options?: CommonOptions): Promise<void> {
+        return this.#bucketOperations.putBucketLogging(bucketName, config, options);
+    }
+
+    /**
+     * 获取 Bucket 的访问日志配置。没有开启访问日志时返回 `undefined`
+     */
+    getBucketLogging(bucketName: string, options?: CommonOptions): Promise<BucketLoggingConfiguration | undefined> {
+        return this.#bucketOperations.getBucketLogging(bucketName, options);
+    }
+
+    /**
+     * 关闭 Bucket 的访问日志
+     */
+    deleteBucketLogging(bucketName: string, options?: CommonOptions): Promise<void> {
+        return this.#bucketOperations.deleteBucketLogging(bucketName, options);
+    }
+
+    /**
+     * 设置 Bucket 默认的服务端加密方式
+     */
+    putBucketEncryption(bucketName: string, rule: BucketEncryptionRule, options?: CommonOptions): Promise<void> {
+        return this.#bucketOperations.putBucketEncryption(bucketName, rule, options);
+    }
+
+    /**
+     * 获取 Bucket 默认的服务端加密方式
+     */
+    getBucketEncryption(bucketName: string, options?: CommonOptions): Promise<BucketEncryptionRule> {
+        return this.#bucketOperations.getBucketEncryption(bucketName, options);
+    }
+
+    /**
+     * 删除 Bucket 默认的服务端加密方式
+     */
+    deleteBucketEncryption(bucketName: string, options?: CommonOptions): Promise<void> {
+        return this.#bucketOperations.deleteBucketEncryption(bucketName, options);
+    }
+
+    /**
+     * 设置 Bucket 的标签，会覆盖 Bucket 已有的全部标签
+     */
+    putBucketTagging(bucketName: string, tags: Record<string, string | number | boolean>, options?: CommonOptions): Promise<void> {
+        return this.#bucketOperations.putBucketTagging(bucketName, tags, options);
     }
 
-    getBucketInfo(bucketName: string): Promise<BucketInfo> {
-        return this.#bucketOperations.getBucketInfo(bucketName);
+    /**
+     * 获取 Bucket 的标签
+     */
+    getBucketTagging(bucketName: string, options?: CommonOptions): Promise<Record<string, string>> {
+        return this.#bucketOperations.getBucketTagging(bucketName, options);
+    }
+
+    /**
+     * 删除 Bucket 的标签。`keys` 为空时删除全部标签
+     */
+    deleteBucketTagging(bucketName: string, keys?: string[], options?: CommonOptions): Promise<void> {
+        return this.#bucketOperations.deleteBucketTagging(bucketName, keys, options);
     }
 
     listObjects(bucketName: string, query?: ListObjectsQuery): Promise<ListObjectsResult> {
         return this.#bucketOperations.listObjects(bucketName, query);
     }
 
-    createFolder(bucketName: string, folderPath: string): Promise<void> {
-        return this.#objectOperations.createFolder(bucketName, folderPath);
+    /**
+     * 列出 Bucket 中尚未完成或者取消的分片上传事件
+     */
+    listMultipartUploads(bucketName: string, query?: ListMultipartUploadsQuery): Promise<ListMultipartUploadsResult> {
+        return this.#bucketOperations.listMultipartUploads(bucketName, query);
+    }
+
+    /**
+     * 取消 Bucket 中在 `initiatedBefore` 之前初始化的全部分片上传事件，返回被取消的分片上传事件
+     */
+    abortMultipartUploadsBefore(bucketName: string, initiatedBefore: Date, prefix?: string, options?: CommonOptions): Promise<MultipartUpload[]> {
+        return this.#bucketOperations.abortMultipartUploadsBefore(bucketName, initiatedBefore, prefix, options);
+    }
+
+    createFolder(bucketName: string, folderPath: string, options?: CommonOptions): Promise<void> {
+        return this.#objectOperations.createFolder(bucketName, folderPath, options);
     }
 
     // putFile(bucketName: string, objectKey: string, file: Deno.FsFile, options?: PutObjectOptions): Promise<PutObjectResult> {
@@ -149,7 +458,16 @@ export class OssClient {
     }
 
     /**
-     * 分片上传文件。目前是串行上传的，尚未支持并发。
+     * 以追加的方式上传 Object。`source` 可以是 Stream 或者本地文件路径。
+     *
+     * `position` 和 Object 当前的长度不一致时抛出 `PositionNotEqualToLengthError`
+     */
+    appendObject(bucketName: string, objectKey: string, position: number, source: ReadableStream | string, options?: AppendObjectOptions): Promise<AppendObjectResult> {
+        return this.#objectOperations.appendObject(bucketName, objectKey, position, source, options);
+    }
+
+    /**
+     * 分片上传文件。默认串行上传，可以通过 `options.concurrency` 设置同时上传的分片数量。
      *
      * 如果上传参数中设置了回调信息，那么返回的是 OSS 调用回调之后的响应内容。
      */
@@ -157,6 +475,50 @@ export class OssClient {
         return this.#objectOperations.multipartUpload(bucketName, objectKey, filePath, options);
     }
 
+    /**
+     * 初始化分片上传，获取分片上传事件的 `uploadId`
+     */
+    initiateMultipartUpload(bucketName: string, objectKey: string, options?: PutObjectOptions): Promise<InitiateMultipartUploadResult> {
+        return this.#objectOperations.initiateMultipartUpload(bucketName, objectKey, options);
+    }
+
+    /**
+     * 上传分片。使用 Stream 上传分片时，必须设置 `options` 中的 `contentLength`
+     */
+    uploadPart(bucketName: string, objectKey: string, uploadId: string, partNumber: number, stream: ReadableStream, options?: UploadPartOptions): Promise<UploadPartResult> {
+        return this.#objectOperations.uploadPart(bucketName, objectKey, uploadId, partNumber, stream, options);
+    }
+
+    /**
+     * 从已存在的 Object 拷贝数据作为分片
+     */
+    uploadPartCopy(bucketName: string, objectKey: string, uploadId: string, partNumber: number, source: CopySource, options?: UploadPartCopyOptions): Promise<UploadPartCopyResult> {
+        return this.#objectOperations.uploadPartCopy(bucketName, objectKey, uploadId, partNumber, source, options);
+    }
+
+    /**
+     * 完成分片上传。
+     *
+     * 如果指定了 `callback`，那么返回的是 OSS 调用回调之后的响应内容。
+     */
+    completeMultipartUpload(bucketName: string, objectKey: string, uploadId: string, parts: CompletedPart[], options?: PutObjectOptions): Promise<CompleteMultipartUploadResult | string> {
+        return this.#objectOperations.completeMultipartUpload(bucketName, objectKey, uploadId, parts, options);
+    }
+
+    /**
+     * 取消分片上传，已经上传的分片会被删除
+     */
+    abortMultipartUpload(bucketName: string, objectKey: string, uploadId: string, options?: CommonOptions): Promise<void> {
+        return this.#objectOperations.abortMultipartUpload(bucketName, objectKey, uploadId, options);
+    }
+
+    /**
+     * 列出分片上传事件中已经上传的分片
+     */
+    listParts(bucketName: string, objectKey: string, uploadId: string, query?: ListPartsQuery): Promise<ListPartsResult> {
+        return this.#objectOperations.listParts(bucketName, objectKey, uploadId, query);
+    }
+
     /**
      * 获取 Object 元数据。推荐使用 `getObjectMeta`
      */
@@ -188,8 +550,74 @@ export class OssClient {
     /**
      * 批量删除 Object
      */
-    deleteMultipleObjects(bucketName: string, items: {key: string; versionId?: string}[], quiet?: boolean): Promise<void> {
-        return this.#objectOperations.deleteMultipleObjects(bucketName, items, quiet);
+    deleteMultipleObjects(bucketName: string, items: {key: string; versionId?: string}[], quiet?: boolean, options?: CommonOptions): Promise<void> {
+        return this.#objectOperations.deleteMultipleObjects(bucketName, items, quiet, options);
+    }
+
+    /**
+     * 获取 Object 的访问权限
+     */
+    getObjectAcl(bucketName: string, objectKey: string, options?: ObjectAclOptions): Promise<GetObjectAclResult> {
+        return this.#objectOperations.getObjectAcl(bucketName, objectKey, options);
+    }
+
+    /**
+     * 设置 Object 的访问权限
+     */
+    putObjectAcl(bucketName: string, objectKey: string, acl: ObjectAcl, options?: ObjectAclOptions): Promise<void> {
+        return this.#objectOperations.putObjectAcl(bucketName, objectKey, acl, options);
+    }
+
+    /**
+     * 在服务端拷贝 Object，源 Object 可以在同一地域的其他 Bucket 中。单次拷贝的 Object 不能超过 1GB
+     */
+    copyObject(bucketName: string, objectKey: string, source: CopySource, options?: CopyObjectOptions): Promise<CopyObjectResult> {
+        return this.#objectOperations.copyObject(bucketName, objectKey, source, options);
+    }
+
+    /**
+     * 使用分片上传在服务端拷贝大 Object，数据不会经过本地
+     */
+    multipartCopy(bucketName: string, objectKey: string, source: CopySource, options?: MultipartCopyOptions): Promise<CompleteMultipartUploadResult> {
+        return this.#objectOperations.multipartCopy(bucketName, objectKey, source, options);
+    }
+
+    /**
+     * 重命名 Object，先拷贝为 `targetKey` 然后删除 `sourceKey`
+     */
+    renameObject(bucketName: string, sourceKey: string, targetKey: string, options?: RenameObjectOptions): Promise<void> {
+        return this.#objectOperations.renameObject(bucketName, sourceKey, targetKey, options);
+    }
+
+    /**
+     * 将 `sourcePrefix` 下的全部 Object 移动到 `targetPrefix` 下，例如将 `createFolder` 创建的文件夹整体改名。
+     *
+     * 单个 Object 移动失败时不会停止，失败的 Object 会在结果的 `failures` 中返回。
+     * 通过 `signal` 取消时会抛出异常。
+     */
+    movePrefix(bucketName: string, sourcePrefix: string, targetPrefix: string, options?: MovePrefixOptions): Promise<MovePrefixResult> {
+        return this.#prefixOperations.movePrefix(bucketName, sourcePrefix, targetPrefix, options);
+    }
+
+    /**
+     * 获取 Object 的标签
+     */
+    getObjectTagging(bucketName: string, objectKey: string, options?: ObjectTaggingOptions): Promise<Record<string, string>> {
+        return this.#objectOperations.getObjectTagging(bucketName, objectKey, options);
+    }
+
+    /**
+     * 设置 Object 的标签，会覆盖 Object 已有的全部标签
+     */
+    putObjectTagging(bucketName: string, objectKey: string, tags: Record<string, string | number | boolean>, options?: ObjectTaggingOptions): Promise<void> {
+        return this.#objectOperations.putObjectTagging(bucketName, objectKey, tags, options);
+    }
+
+    /**
+     * 删除 Object 的全部标签
+     */
+    deleteObjectTagging(bucketName: string, objectKey: string, options?: ObjectTaggingOptions): Promise<void> {
+        return this.#objectOperations.deleteObjectTagging(bucketName, objectKey, options);
     }
 
     /**
@@ -0,0 +1,81 @@
+import { ClientError } from "./common.ts";
+import { BucketOperation } from "./bucket.ts";
+import { ObjectOperation, MovePrefixOptions, MovePrefixResult } from "./object.ts";
+import { isBlank, log } from "./helper.ts";
+
+/**
+ * Operations on all objects under a prefix, built on bucket and object operations
+ */
+export class PrefixOperation {
+    #bucketOperations: BucketOperation;
+    #objectOperations: ObjectOperation;
+
+    constructor(bucketOperations: BucketOperation, objectOperations: ObjectOperation) {
+        this.#bucketOperations = bucketOperations;
+        this.#objectOperations = objectOperations;
+    }
+
+    /**
+     * 将 `sourcePrefix` 下的全部 Object 移动到 `targetPrefix` 下，例如将 `createFolder` 创建的文件夹整体改名。
+     *
+     * 单个 Object 移动失败时不会停止，失败的 Object 会在结果的 `failures` 中返回。
+     * 通过 `signal` 取消时会抛出异常。
+     */
+    async movePrefix(bucketName: string, sourcePrefix: string, targetPrefix: string, options?: MovePrefixOptions): Promise<MovePrefixResult> {
+        if (isBlank(bucketName) || isBlank(sourcePrefix) || isBlank(targetPrefix)) {
+            throw new ClientError("bucketName, sourcePrefix and targetPrefix are required, can not be empty");
+        }
+
+        // 目标前缀在源前缀之下时，移动后的 Object 会再次被列举出来
+        if (targetPrefix.startsWith(sourcePrefix)) {
+            throw new ClientError("targetPrefix can not be under sourcePrefix");
+        }
+
+        const result: MovePrefixResult = {
+            movedKeys: [],
+            failures: [],
+        };
+
+        const concurrency = Math.max(1, Math.floor(options?.concurrency ?? 1));
+        let continuationToken: string | undefined;
+
+        do {
+            options?.signal?.throwIfAborted();
+
+            const page = await this.#bucketOperations.listObjects(bucketName, {
+                prefix: sourcePrefix,
+                continuationToken,
+                timeoutMs: options?.timeoutMs,
+                signal: options?.signal,
+            });
+
+            const pendingKeys = (page.contents ?? []).map(c => `${c.key}`);
+
+            const moveObjects = async () => {
+                while (pendingKeys.length > 0) {
+                    options?.signal?.throwIfAborted();
+
+                    const key = pendingKeys.shift()!;
+                    const targetKey = `${targetPrefix}${key.substring(sourcePrefix.length)}`;
+                    try {
+                        await this.#objectOperations.renameObject(bucketName, key, targetKey, options);
+                        result.movedKeys.push(key);
+                    } catch (e) {
+                        if (options?.signal?.aborted) {
+                            throw e;
+                        }
+
+                        log(`move ${key} to ${targetKey} failed: ${e}`);
+                        result.failures.push({ key, error: e });
+                    }
+                }
+            };
+
+            await Promise.all(Array.from({ length: concurrency }, () => moveObjects()));
+
+            continuationToken = page.isTruncated ? page.nextContinuationToken : undefined;
+        } while (continuationToken);
+
+        return result;
+    }
+}
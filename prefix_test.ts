@@ -0,0 +1,42 @@
+import { assertEquals } from "std/assert/mod.ts";
+
+import { BucketOperation } from "./bucket.ts";
+import { ObjectOperation } from "./object.ts";
+import { PrefixOperation } from "./prefix.ts";
+import { clientConfig, mockFetch } from "./test_helper.ts";
+
+Deno.test("movePrefix to the parent prefix", async () => {
+    const copiedKeys: string[] = [];
+    const deletedKeys: string[] = [];
+
+    const restoreFetch = mockFetch(request => {
+        const objectKey = decodeURIComponent(new URL(request.url).pathname.substring(1));
+
+        if (request.method === "GET") {
+            return new Response("<ListBucketResult><Name>test-bucket</Name><Prefix>a/b/</Prefix><MaxKeys>100</MaxKeys><IsTruncated>false</IsTruncated><KeyCount>2</KeyCount>"
+                + "<Contents><Key>a/b/1.txt</Key><LastModified>2024-01-01T00:00:00.000Z</LastModified></Contents>"
+                + "<Contents><Key>a/b/2.txt</Key><LastModified>2024-01-01T00:00:00.000Z</LastModified></Contents>"
+                + "</ListBucketResult>");
+        }
+
+        if (request.method === "PUT") {
+            copiedKeys.push(`${request.headers.get("x-oss-copy-source")} -> ${objectKey}`);
+            return new Response(`<CopyObjectResult><ETag>"etag"</ETag><LastModified>2024-01-01T00:00:00.000Z</LastModified></CopyObjectResult>`);
+        }
+
+        deletedKeys.push(objectKey);
+        return new Response(null, { status: 204 });
+    });
+
+    try {
+        const prefixOperation = new PrefixOperation(new BucketOperation(clientConfig), new ObjectOperation(clientConfig));
+        const result = await prefixOperation.movePrefix("test-bucket", "a/b/", "a/");
+
+        assertEquals(result.movedKeys, ["a/b/1.txt", "a/b/2.txt"]);
+        assertEquals(result.failures, []);
+        assertEquals(copiedKeys, ["/test-bucket/a/b/1.txt -> a/1.txt", "/test-bucket/a/b/2.txt -> a/2.txt"]);
+        assertEquals(deletedKeys, ["a/b/1.txt", "a/b/2.txt"]);
+    } finally {
+        restoreFetch();
+    }
+});
@@ -0,0 +1,17 @@
+import { ClientConfig } from "./common.ts";
+import { StaticCredentialsProvider } from "./credentials.ts";
+
+export const clientConfig: ClientConfig = {
+    region: "cn-hangzhou",
+    endpoint: "oss-cn-hangzhou.aliyuncs.com",
+    credentialsProvider: new StaticCredentialsProvider("test-access-key-id", "test-access-key-secret"),
+};
+
+/**
+ * 使用 `handler` 代替 fetch 响应请求，返回恢复 fetch 的函数
+ */
+export function mockFetch(handler: (request: Request) => Response): () => void {
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = (input, init) => Promise.resolve(handler(new Request(input, init)));
+    return () => globalThis.fetch = originalFetch;
+}